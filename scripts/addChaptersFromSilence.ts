@@ -1,88 +1,304 @@
-async function createVisualization(
-  opts: CliOpts,
-  silenceEnds: number[]
-): Promise<void> {
-  // Create a visualization of the audio waveform
-  const args = [
-    '-i',
-    opts.inFile,
-    '-filter_complex',
-    [
-      // Create the waveform visualization
-      'showwaves=s=1920x200:mode=line:colors=0x00ff00',
-      // Add silence markers
-      ...silenceEnds
-        .map(
-          (end, i) =>
-            `drawtext=text='|':fontsize=30:fontcolor=red:x='${end}*w/t':y=0:enable='between(t,${
-              end - 0.1
-            },${end + 0.1})'`
-        )
-        .join(','),
-    ].join(','),
-    '-frames:v',
-    '1',
-    'visualization.png',
-  ]
-
-  await runFFmpeg(args)
-  console.log(
-    '📊 Created visualization at visualization.png'
+#!/usr/bin/env node
+import { execFile } from 'child_process'
+import { existsSync } from 'fs'
+import * as fs from 'fs/promises'
+import { tmpdir } from 'os'
+import { extname, join } from 'path'
+import { parseArgs, promisify } from 'util'
+import { confirm, isCancel } from '@clack/prompts'
+import { consola } from 'consola'
+import { getAudioDuration } from './audio-chunks'
+import {
+  formatChapterTimestamp,
+  formatChaptersFile,
+} from './chapters-file'
+import { getArtifactPath, loadEpisode } from './episode'
+import {
+  detectSilences,
+  parseThreshold,
+  SilenceInterval,
+} from './silence'
+import {
+  buildMetadataFile,
+  chapterStartsFromSilenceEnds,
+  titleChapters,
+} from './silence-chapters'
+import { readTranscriptCues } from './transcript'
+import { renderTimeline } from './waveform'
+
+const execFileAsync = promisify(execFile)
+
+const DEFAULT_THRESHOLD = -30 // dB
+const DEFAULT_MIN_DURATION = 1 // seconds of silence
+const DEFAULT_MIN_LENGTH = 30 // seconds per chapter
+const VISUALIZATION_FILE = 'visualization.png'
+
+interface CliOpts {
+  inFile: string
+  outFile: string
+  threshold: number
+  minDuration: number
+  minLength: number
+  transcript?: string
+  chapters?: string
+  visualize: boolean
+  yes: boolean
+  overwrite: boolean
+}
+
+const USAGE = `Usage: npx ts-node scripts/addChaptersFromSilence.ts <input> <output> [options]
+
+Adds a chapter wherever speech resumes after a silence and copies the
+streams into <output> with the chapters embedded.
+
+Options:
+  -e, --episode <id>          Use the episode's audio and transcript, writing
+                              <audio>-chapters.<ext> next to the audio
+  -n, --threshold <dB>        Quieter than this counts as silence (default ${DEFAULT_THRESHOLD})
+  -d, --min-duration <sec>    Shortest silence that starts a chapter (default ${DEFAULT_MIN_DURATION})
+  -l, --min-length <sec>      Shortest chapter (default ${DEFAULT_MIN_LENGTH})
+  -t, --transcript <path>     Title chapters with their first words (.vtt, .srt, .txt)
+  -c, --chapters <path>       Also write the chapters in chapters.txt format
+      --visualize             Draw the waveform, silences and chapter starts to ${VISUALIZATION_FILE}
+  -y, --yes                   Don't ask before writing the output
+      --overwrite             Replace <output> if it exists
+  -h, --help                  Show this help
+
+A negative threshold needs an equals sign (--threshold=-35), or pass
+the magnitude (-n 35).`
+
+/**
+ * Parse command line flags, exiting on invalid input
+ */
+async function parseCliOpts(): Promise<CliOpts> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      episode: { type: 'string', short: 'e' },
+      threshold: { type: 'string', short: 'n' },
+      'min-duration': { type: 'string', short: 'd' },
+      'min-length': { type: 'string', short: 'l' },
+      transcript: { type: 'string', short: 't' },
+      chapters: { type: 'string', short: 'c' },
+      visualize: { type: 'boolean' },
+      yes: { type: 'boolean', short: 'y' },
+      overwrite: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const inFile =
+    positionals[0] ??
+    (episode && getArtifactPath(episode, 'audio'))
+  // Never the episode's audio itself, the streams are copied
+  const outFile =
+    positionals[1] ??
+    (episode && inFile && withSuffix(inFile, '-chapters'))
+  if (values.help || !inFile || !outFile) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const threshold =
+    values.threshold !== undefined
+      ? parseThreshold(values.threshold)
+      : DEFAULT_THRESHOLD
+  const minDuration = parseNumber(
+    values['min-duration'],
+    DEFAULT_MIN_DURATION
+  )
+  const minLength = parseNumber(
+    values['min-length'],
+    DEFAULT_MIN_LENGTH
+  )
+  if (isNaN(threshold) || threshold >= 0) {
+    consola.error('--threshold must be below 0 dB')
+    process.exit(1)
+  }
+  if (minDuration <= 0 || minLength < 0) {
+    consola.error(
+      '--min-duration must be positive and --min-length not negative'
+    )
+    process.exit(1)
+  }
+
+  // Titles come from the episode's transcript when it has one
+  const episodeTranscript =
+    episode && getArtifactPath(episode, 'transcript')
+  return {
+    inFile,
+    outFile,
+    threshold,
+    minDuration,
+    minLength,
+    transcript:
+      values.transcript ??
+      (episodeTranscript && existsSync(episodeTranscript)
+        ? episodeTranscript
+        : undefined),
+    chapters: values.chapters,
+    visualize: values.visualize ?? false,
+    yes: values.yes ?? false,
+    overwrite: values.overwrite ?? false,
+  }
+}
+
+function withSuffix(
+  filePath: string,
+  suffix: string
+): string {
+  const extension = extname(filePath)
+  return `${filePath.slice(
+    0,
+    filePath.length - extension.length
+  )}${suffix}${extension}`
+}
+
+function parseNumber(
+  value: string | undefined,
+  fallback: number
+): number {
+  if (value === undefined) return fallback
+  const parsed = parseFloat(value)
+  if (isNaN(parsed)) {
+    consola.error(`"${value}" is not a number`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+/**
+ * Silences long enough to start a chapter
+ */
+async function detectChapterSilences(
+  opts: CliOpts
+): Promise<SilenceInterval[]> {
+  return detectSilences(opts.inFile, {
+    threshold: opts.threshold,
+    minDuration: opts.minDuration,
+  })
+}
+
+async function runFFmpeg(args: string[]): Promise<void> {
+  await execFileAsync(
+    process.env.FFMPEG_PATH || 'ffmpeg',
+    ['-hide_banner', '-loglevel', 'error', ...args],
+    { maxBuffer: 10 * 1024 * 1024 }
   )
 }
 
 async function main() {
-  const opts = parseArgs()
-  const ends = await detectSilenceEnds(opts)
-  if (!ends.length) {
-    console.log(
+  const opts = await parseCliOpts()
+  if (existsSync(opts.outFile) && !opts.overwrite) {
+    consola.error(
+      `${opts.outFile} already exists, pass --overwrite to replace it`
+    )
+    process.exit(1)
+  }
+
+  consola.start(
+    `Detecting silences of ${opts.minDuration}s below ${opts.threshold}dB...`
+  )
+  const silences = await detectChapterSilences(opts)
+  const duration = await getAudioDuration(opts.inFile)
+  const starts = chapterStartsFromSilenceEnds(
+    silences.map((silence) => silence.end),
+    duration,
+    opts.minLength
+  )
+  if (starts.length < 2) {
+    consola.info(
       'No silences >= duration found — nothing to do.'
     )
     return
   }
 
-  // Create visualization first
-  await createVisualization(opts, ends)
-
-  // Ask for confirmation before proceeding
-  console.log(
-    `\nFound ${ends.length} silence points. Would you like to proceed with adding chapters? (y/n)`
+  const chapters = titleChapters(
+    starts,
+    opts.transcript
+      ? await readTranscriptCues(opts.transcript)
+      : []
   )
-  const readline = require('readline').createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  })
+  for (const chapter of chapters) {
+    console.log(
+      `${formatChapterTimestamp(chapter.startTime)}  ${
+        chapter.title
+      }`
+    )
+  }
+
+  if (opts.visualize) {
+    await renderTimeline(opts.inFile, VISUALIZATION_FILE, {
+      silences,
+      proposedChapters: chapters,
+    })
+    consola.info(
+      `Created visualization at ${VISUALIZATION_FILE}`
+    )
+  }
 
-  readline.question('', async (answer: string) => {
-    readline.close()
-    if (answer.toLowerCase() !== 'y') {
-      console.log('Operation cancelled.')
+  if (!opts.yes && process.stdin.isTTY) {
+    const proceed = await confirm({
+      message: `Add these ${chapters.length} chapters to ${opts.outFile}?`,
+    })
+    if (isCancel(proceed) || !proceed) {
+      consola.warn('Operation cancelled')
       return
     }
+  }
 
-    const metaTxt = buildMetadataFile(ends)
-    const metaPath = join(
-      tmpdir(),
-      `chapters-${Date.now()}.ffmeta`
-    )
-    await fs.writeFile(metaPath, metaTxt)
-
-    const args = [
+  const metaPath = join(
+    tmpdir(),
+    `chapters-${Date.now()}.ffmeta`
+  )
+  await fs.writeFile(
+    metaPath,
+    buildMetadataFile(chapters, duration),
+    'utf-8'
+  )
+  try {
+    await runFFmpeg([
+      opts.overwrite ? '-y' : '-n',
       '-i',
       opts.inFile,
       '-i',
       metaPath,
+      '-map',
+      '0',
       '-map_metadata',
+      '0',
+      '-map_chapters',
       '1',
       '-codec',
       'copy',
       opts.outFile,
-    ]
-    await runFFmpeg(args)
+    ])
+  } finally {
     await fs.unlink(metaPath)
+  }
 
-    console.log(
-      `✅ Chapters added at ${ends.length} silence points → ${opts.outFile}`
+  if (opts.chapters) {
+    await fs.writeFile(
+      opts.chapters,
+      formatChaptersFile(chapters),
+      'utf-8'
     )
-  })
+    consola.info(`Wrote ${opts.chapters}`)
+  }
+
+  consola.success(
+    `Chapters added at ${
+      chapters.length - 1
+    } silence points → ${opts.outFile}`
+  )
 }
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
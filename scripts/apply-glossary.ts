@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import {
+  correctCues,
+  formatCorrectionReport,
+  loadGlossary,
+} from './glossary'
+import {
+  getArtifactPath,
+  loadEpisode,
+  withEpisodeNames,
+} from './episode'
+import { parseVTT, serializeVTT } from './transcript'
+
+const USAGE = `Usage: npx ts-node scripts/apply-glossary.ts <transcript.vtt> [options]
+
+Fixes misheard names and terms in a VTT transcript and reports every
+substitution.
+
+Options:
+  -e, --episode <id>      Correct the episode's transcript, with its hosts
+                          and guests added to the glossary
+  -g, --glossary <path>   Glossary file (repeatable, default glossary.json)
+  -o, --output <path>     Where to write the corrected VTT (default: print it)
+  -w, --write             Correct the transcript in place
+  -r, --report <path>     Also save the substitutions as JSON
+  -h, --help              Show this help`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      episode: { type: 'string', short: 'e' },
+      glossary: {
+        type: 'string',
+        short: 'g',
+        multiple: true,
+      },
+      output: { type: 'string', short: 'o' },
+      write: { type: 'boolean', short: 'w' },
+      report: { type: 'string', short: 'r' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const transcriptPath =
+    positionals[0] ??
+    (episode && getArtifactPath(episode, 'transcript'))
+  if (values.help || !transcriptPath) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const glossary = episode
+    ? withEpisodeNames(
+        await loadGlossary(values.glossary),
+        episode
+      )
+    : await loadGlossary(values.glossary)
+  if (glossary.entries.length === 0) {
+    consola.error(
+      'No glossary found, pass one with --glossary'
+    )
+    process.exit(1)
+  }
+
+  const { cues, substitutions } = correctCues(
+    parseVTT(await fs.readFile(transcriptPath, 'utf-8')),
+    glossary
+  )
+
+  const outputPath = values.write
+    ? transcriptPath
+    : values.output
+  if (outputPath) {
+    await fs.writeFile(
+      outputPath,
+      serializeVTT(cues),
+      'utf-8'
+    )
+  } else {
+    process.stdout.write(serializeVTT(cues))
+  }
+
+  if (values.report) {
+    await fs.writeFile(
+      values.report,
+      JSON.stringify(substitutions, null, 2) + '\n',
+      'utf-8'
+    )
+  }
+  // On stderr, so the printed VTT stays clean
+  console.error(formatCorrectionReport(substitutions))
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
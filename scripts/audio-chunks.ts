@@ -0,0 +1,215 @@
+import ffmpeg from 'fluent-ffmpeg'
+import { stat } from 'fs/promises'
+import { join } from 'path'
+import { detectSilences, SilenceInterval } from './silence'
+
+export interface ChunkLimits {
+  targetDuration: number // in seconds, preferred chunk length
+  maxDuration: number // in seconds, the API's limit per request
+  maxBytes: number // the API's upload limit
+  overlap: number // in seconds, shared with the neighboring chunks
+  searchWindow: number // in seconds around the target to look for a pause
+}
+
+export interface AudioChunk {
+  index: number
+  path: string
+  start: number // in seconds, offset in the source recording
+  end: number // in seconds
+  overlapBefore: number // in seconds shared with the previous chunk
+  overlapAfter: number // in seconds shared with the next chunk
+  cutInSilence: boolean // whether the cut after this chunk is in a pause
+}
+
+export interface ChunkManifest {
+  source: string
+  duration: number // in seconds
+  limits: ChunkLimits
+  chunks: AudioChunk[]
+}
+
+export const DEFAULT_CHUNK_LIMITS: ChunkLimits = {
+  targetDuration: 10 * 60,
+  maxDuration: 20 * 60,
+  maxBytes: 25 * 1024 * 1024,
+  overlap: 2,
+  searchWindow: 60,
+}
+
+// Chunks are re-encoded to this, so their size follows from their length
+const CHUNK_BITRATE = 64 // in kbit/s, mono
+// Headroom for container overhead and bitrate variation
+const SIZE_SAFETY_MARGIN = 0.9
+
+/**
+ * Whether a file is too large or too long to send in one request
+ */
+export async function needsChunking(
+  inputPath: string,
+  limits: ChunkLimits = DEFAULT_CHUNK_LIMITS
+): Promise<boolean> {
+  const { size } = await stat(inputPath)
+  if (size > limits.maxBytes) return true
+
+  return (
+    (await getAudioDuration(inputPath)) > limits.maxDuration
+  )
+}
+
+/**
+ * Split a recording into chunks that fit the transcription API, cutting
+ * in pauses near the target length. The chunks are written to
+ * `outputDir`, and the returned manifest holds their offsets for the
+ * merge step.
+ */
+export async function splitAudioIntoChunks(
+  inputPath: string,
+  outputDir: string,
+  limits: ChunkLimits = DEFAULT_CHUNK_LIMITS
+): Promise<ChunkManifest> {
+  const duration = await getAudioDuration(inputPath)
+  const silences = await detectSilences(inputPath)
+  const boundaries = planChunkBoundaries(
+    duration,
+    silences,
+    limits
+  )
+
+  const chunks: AudioChunk[] = []
+  for (const [index, boundary] of boundaries.entries()) {
+    const chunkPath = join(outputDir, `chunk-${index}.mp3`)
+    await extractChunk(
+      inputPath,
+      chunkPath,
+      boundary.start,
+      boundary.end - boundary.start
+    )
+    chunks.push({ index, path: chunkPath, ...boundary })
+  }
+
+  return { source: inputPath, duration, limits, chunks }
+}
+
+/**
+ * Work out where to cut a recording. Each cut goes in the longest pause
+ * within `searchWindow` of the target length that keeps the chunk under
+ * the duration and size limits, or falls back to the longest allowed
+ * length when there is no pause.
+ */
+export function planChunkBoundaries(
+  duration: number,
+  silences: SilenceInterval[],
+  limits: ChunkLimits = DEFAULT_CHUNK_LIMITS
+): Omit<AudioChunk, 'index' | 'path'>[] {
+  const { targetDuration, overlap, searchWindow } = limits
+  // Longest stretch between two cuts, leaving room for the overlaps
+  const maxSpan =
+    Math.min(
+      limits.maxDuration,
+      ((limits.maxBytes * 8) / (CHUNK_BITRATE * 1000)) *
+        SIZE_SAFETY_MARGIN
+    ) -
+    2 * overlap
+  if (maxSpan <= 0) {
+    throw new Error(
+      'Chunk limits leave no room for audio after the overlap'
+    )
+  }
+
+  const cuts: { time: number; inSilence: boolean }[] = []
+  let position = 0
+
+  while (duration - position > maxSpan) {
+    const ideal =
+      position + Math.min(targetDuration, maxSpan)
+    const earliest = Math.max(
+      position + overlap,
+      ideal - searchWindow
+    )
+    const latest = Math.min(
+      ideal + searchWindow,
+      position + maxSpan
+    )
+
+    const pause = silences
+      .map((silence) => ({
+        ...silence,
+        middle: (silence.start + silence.end) / 2,
+      }))
+      .filter(
+        (silence) =>
+          silence.middle >= earliest &&
+          silence.middle <= latest
+      )
+      .sort(
+        (a, b) =>
+          b.end - b.start - (a.end - a.start) ||
+          Math.abs(a.middle - ideal) -
+            Math.abs(b.middle - ideal)
+      )[0]
+
+    const time = pause ? pause.middle : latest
+    cuts.push({ time, inSilence: Boolean(pause) })
+    position = time
+  }
+
+  const edges = [
+    0,
+    ...cuts.map((cut) => cut.time),
+    duration,
+  ]
+  return edges.slice(0, -1).map((from, i) => {
+    const to = edges[i + 1]
+    const start = Math.max(0, from - (i > 0 ? overlap : 0))
+    const end = Math.min(
+      duration,
+      to + (i < cuts.length ? overlap : 0)
+    )
+
+    return {
+      start: round(start),
+      end: round(end),
+      overlapBefore: round(from - start),
+      overlapAfter: round(end - to),
+      cutInSilence: cuts[i]?.inSilence ?? false,
+    }
+  })
+}
+
+export function getAudioDuration(
+  filePath: string
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err)
+        return
+      }
+      resolve(metadata.format.duration || 0)
+    })
+  })
+}
+
+function extractChunk(
+  inputPath: string,
+  outputPath: string,
+  start: number,
+  duration: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .setStartTime(start)
+      .setDuration(duration)
+      .noVideo()
+      .audioChannels(1)
+      .audioBitrate(CHUNK_BITRATE)
+      .format('mp3')
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .save(outputPath)
+  })
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
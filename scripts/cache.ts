@@ -0,0 +1,134 @@
+import { createHash } from 'crypto'
+import { createReadStream } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import * as path from 'path'
+import { isFileNotFoundError } from './fs-errors'
+
+// Stored in the output directory next to the outputs it describes
+export const CACHE_MANIFEST_FILE = '.cache-manifest.json'
+
+export interface CacheEntry {
+  key: string // hash of the input file contents and parameters
+  inputPath: string
+  updatedAt: string // ISO date
+}
+
+interface CacheManifest {
+  version: 1
+  entries: Record<string, CacheEntry> // by output path, relative to the output dir
+}
+
+export interface OutputCache {
+  get(outputPath: string): CacheEntry | undefined
+  record(
+    outputPath: string,
+    inputPath: string,
+    key: string
+  ): Promise<void>
+}
+
+/**
+ * Hash an input file together with everything else that shapes its
+ * output (prompt, model ID, options). Any change gives a new key.
+ */
+export async function computeCacheKey(
+  inputPath: string,
+  params: Record<string, unknown>
+): Promise<string> {
+  return createHash('sha256')
+    .update(await hashFile(inputPath))
+    .update(JSON.stringify(sortKeys(params)))
+    .digest('hex')
+}
+
+/**
+ * Load the cache manifest of an output directory. Entries are written
+ * back after every record so an interrupted run can resume.
+ */
+export async function openOutputCache(
+  outputDir: string
+): Promise<OutputCache> {
+  const manifestPath = path.join(
+    outputDir,
+    CACHE_MANIFEST_FILE
+  )
+  const manifest = await readManifest(manifestPath)
+
+  // Writes are chained so concurrent records never interleave
+  let saving: Promise<void> = Promise.resolve()
+
+  return {
+    get: (outputPath) =>
+      manifest.entries[
+        path.relative(outputDir, outputPath)
+      ],
+    record: (outputPath, inputPath, key) => {
+      manifest.entries[
+        path.relative(outputDir, outputPath)
+      ] = {
+        key,
+        inputPath,
+        updatedAt: new Date().toISOString(),
+      }
+      // A failed write must not block the ones after it
+      saving = saving
+        .catch(() => undefined)
+        .then(() =>
+          writeFile(
+            manifestPath,
+            JSON.stringify(manifest, null, 2) + '\n',
+            'utf-8'
+          )
+        )
+      return saving
+    },
+  }
+}
+
+async function readManifest(
+  manifestPath: string
+): Promise<CacheManifest> {
+  try {
+    const manifest = JSON.parse(
+      await readFile(manifestPath, 'utf-8')
+    ) as CacheManifest
+    if (manifest.version !== 1) {
+      throw new Error(
+        `Unsupported cache manifest version in ${manifestPath}`
+      )
+    }
+    return manifest
+  } catch (error: unknown) {
+    if (!isFileNotFoundError(error)) throw error
+    return { version: 1, entries: {} }
+  }
+}
+
+// Streamed so large audio files are not read into memory at once
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+// Same parameters in a different order must give the same key
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          sortKeys((value as Record<string, unknown>)[key]),
+        ])
+    )
+  }
+  return value
+}
@@ -1,7 +1,9 @@
 #!/usr/bin/env node
 import dotenv from 'dotenv'
+import { existsSync } from 'fs'
 import * as path from 'path'
 import * as fs from 'fs/promises'
+import { parseArgs } from 'util'
 import { consola } from 'consola'
 import {
   intro,
@@ -15,12 +17,23 @@ import {
 } from '@clack/prompts'
 import {
   processTranscriptChapters,
-  splitTranscriptIntoChapters,
-  findChapterTimestamps,
   Chapter,
-  SpeakerChange,
+  ChapterProgress,
+  ChapterStrategy,
 } from './transcript-chapters'
-import { extractSpeakerChanges } from './extract-speaker-changes'
+import { formatChaptersFile } from './chapters-file'
+import {
+  getTranscriptFormat,
+  normalizeTranscript,
+  parseTranscript,
+  TranscriptCue,
+} from './transcript'
+import { getArtifactPath, loadEpisode } from './episode'
+import {
+  DEFAULT_SNAP_WINDOW,
+  formatSnapReport,
+  SnapOptions,
+} from './chapter-snapping'
 
 // Extend the Chapter type to include formattedTime
 interface ChapterWithFormattedTime extends Chapter {
@@ -32,10 +45,285 @@ dotenv.config()
 // Define allowed file extensions
 const ALLOWED_EXTENSIONS = ['.txt', '.vtt', '.srt']
 
+// Supported output formats for saved chapters: a JSON dump, or the
+// timestamp/title layout of content/*/chapters.txt
+const OUTPUT_FORMATS = ['json', 'txt'] as const
+type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+const DEFAULT_MAX_CHAPTERS = 15
+
+const STRATEGIES: ChapterStrategy[] = [
+  'full',
+  'windowed',
+  'structured',
+]
+
+interface CliOptions {
+  input?: string
+  episode?: string
+  maxChapters?: number
+  output?: string
+  format: OutputFormat
+  strategy: ChapterStrategy
+  snap: boolean
+  snapWindow: number
+  audio?: string
+  speakers?: string[] // names to read from "Name:" prefixes
+}
+
+const USAGE = `Usage: pnpm chapters [options]
+
+Runs interactively when no --input is given.
+
+Options:
+  -i, --input <path>      Transcript file (.txt, .vtt, .srt)
+  -e, --episode <id>      Read the transcript of an episode and save to its
+                          chapters file, as txt unless --format is given
+  -m, --max-chapters <n>  Maximum number of chapters (1-20, default 15)
+  -o, --output <path>     Where to save the chapters
+  -f, --format <format>   Output format (json, txt, default json)
+  -s, --strategy <name>   Detection strategy (full, windowed, structured,
+                          default full). windowed works on time windows, for
+                          long episodes; structured finds titles and start
+                          times in a single call
+      --snap              Move each start to the best nearby sentence start
+                          or speaker turn, preferring ones after a silence
+      --snap-window <s>   Seconds to look around each start (default ${DEFAULT_SNAP_WINDOW})
+  -a, --audio <path>      Recording to find silences in for --snap (default:
+                          the episode's audio)
+      --speakers <names>  Comma-separated names to read from "Name:" prefixes
+                          in .srt and .txt transcripts (default: the
+                          episode's hosts and guests)
+  -h, --help              Show this help`
+
 /**
  * Main function that runs the CLI
  */
 async function main() {
+  const options = await resolveEpisodeOptions(
+    parseCliOptions()
+  )
+
+  if (options.input) {
+    await runHeadless(options)
+    return
+  }
+
+  await runInteractive()
+}
+
+/**
+ * Parse command line flags, exiting on invalid input
+ */
+function parseCliOptions(): CliOptions {
+  const { values } = parseFlags()
+
+  if (values.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+
+  const format =
+    values.format ?? (values.episode ? 'txt' : 'json')
+  if (!isOutputFormat(format)) {
+    consola.error(
+      `Format must be one of: ${OUTPUT_FORMATS.join(', ')}`
+    )
+    process.exit(1)
+  }
+
+  const strategy = values.strategy ?? 'full'
+  if (!isStrategy(strategy)) {
+    consola.error(
+      `Strategy must be one of: ${STRATEGIES.join(', ')}`
+    )
+    process.exit(1)
+  }
+
+  let maxChapters: number | undefined
+  if (values['max-chapters'] !== undefined) {
+    const error = validateMaxChapters(
+      values['max-chapters']
+    )
+    if (error) {
+      consola.error(error)
+      process.exit(1)
+    }
+    maxChapters = parseInt(values['max-chapters'])
+  }
+
+  const snapWindow =
+    values['snap-window'] !== undefined
+      ? parseFloat(values['snap-window'])
+      : DEFAULT_SNAP_WINDOW
+  if (!(snapWindow > 0)) {
+    consola.error('--snap-window must be a positive number')
+    process.exit(1)
+  }
+
+  return {
+    input: values.input,
+    episode: values.episode,
+    maxChapters,
+    output: values.output,
+    format,
+    strategy,
+    snap: values.snap ?? false,
+    snapWindow,
+    audio: values.audio,
+    speakers: values.speakers
+      ?.split(',')
+      .map((speaker) => speaker.trim())
+      .filter(Boolean),
+  }
+}
+
+/**
+ * Read raw flags from process.argv
+ */
+function parseFlags() {
+  try {
+    return parseArgs({
+      options: {
+        input: { type: 'string', short: 'i' },
+        episode: { type: 'string', short: 'e' },
+        'max-chapters': { type: 'string', short: 'm' },
+        output: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        strategy: { type: 'string', short: 's' },
+        snap: { type: 'boolean' },
+        'snap-window': { type: 'string' },
+        audio: { type: 'string', short: 'a' },
+        speakers: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (error: unknown) {
+    consola.error(
+      error instanceof Error ? error.message : String(error)
+    )
+    console.log(USAGE)
+    process.exit(1)
+  }
+}
+
+/**
+ * Fill in the input and output paths from the episode manifest. Explicit
+ * --input and --output still win.
+ */
+async function resolveEpisodeOptions(
+  options: CliOptions
+): Promise<CliOptions> {
+  if (!options.episode) return options
+
+  try {
+    const episode = await loadEpisode(options.episode)
+    return {
+      ...options,
+      input:
+        options.input ??
+        getArtifactPath(episode, 'transcript'),
+      output:
+        options.output ??
+        (options.format === 'txt'
+          ? getArtifactPath(episode, 'chapters')
+          : undefined),
+      speakers: options.speakers ?? [
+        ...episode.manifest.hosts,
+        ...episode.manifest.guests,
+      ],
+      audio:
+        options.audio ??
+        (options.snap &&
+        existsSync(getArtifactPath(episode, 'audio'))
+          ? getArtifactPath(episode, 'audio')
+          : undefined),
+    }
+  } catch (error: unknown) {
+    consola.error(
+      error instanceof Error ? error.message : String(error)
+    )
+    process.exit(1)
+  }
+}
+
+function isOutputFormat(
+  value: string
+): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(
+    value
+  )
+}
+
+function isStrategy(
+  value: string
+): value is ChapterStrategy {
+  return (STRATEGIES as string[]).includes(value)
+}
+
+/**
+ * Generate chapters without any prompts, for scripts and batch jobs.
+ * Every failure exits with a non-zero code.
+ */
+async function runHeadless(options: CliOptions) {
+  const filePath = String(options.input)
+  const maxChapters =
+    options.maxChapters ?? DEFAULT_MAX_CHAPTERS
+  const outputPath =
+    options.output ??
+    getDefaultOutputPath(filePath, options.format)
+
+  try {
+    const pathError = validateTranscriptPath(filePath)
+    if (pathError) {
+      throw new Error(pathError)
+    }
+    await fs.access(filePath)
+
+    const { transcript, cues } = await loadTranscript(
+      filePath,
+      options.speakers
+    )
+
+    const chaptersWithTimestamps =
+      await processTranscriptChapters(transcript, {
+        cues,
+        maxChapters,
+        strategy: options.strategy,
+        snap: options.snap
+          ? {
+              window: options.snapWindow,
+              audioPath: options.audio,
+            }
+          : undefined,
+        onProgress: logProgress,
+      })
+    if (chaptersWithTimestamps.length === 0) {
+      throw new Error('No chapters were generated')
+    }
+
+    const chaptersWithFormattedTime =
+      addFormattedTimeToChapters(chaptersWithTimestamps)
+    displayProcessedChapters(chaptersWithFormattedTime)
+
+    await writeChaptersFile(
+      chaptersWithFormattedTime,
+      outputPath,
+      options.format
+    )
+    consola.success(`Chapters saved to ${outputPath}`)
+  } catch (error: unknown) {
+    consola.error(
+      error instanceof Error ? error.message : String(error)
+    )
+    process.exit(1)
+  }
+}
+
+/**
+ * Walk through chapter generation with interactive prompts
+ */
+async function runInteractive() {
   try {
     // Introduction
     intro('Transcript Chapter Generator')
@@ -50,34 +338,20 @@ async function main() {
       handleCancel()
     }
 
-    const transcript = await readTranscriptFile(
+    const { transcript, cues } = await readTranscriptFile(
       String(filePath)
     )
 
-    // Extract speaker changes
-    const speakerChanges =
-      await extractSpeakerChangesIfPossible(
-        String(filePath)
-      )
+    const strategy = await getStrategy(cues)
+    const snap = await getSnap(cues)
 
-    const initialChapters = await generateInitialChapters(
+    const chaptersWithTimestamps = await generateChapters(
       transcript,
-      maxChapters
-    )
-
-    const selectedChapters = await selectChapters(
-      initialChapters
+      cues,
+      maxChapters,
+      strategy,
+      snap
     )
-    if (isCancel(selectedChapters)) {
-      handleCancel()
-    }
-
-    const chaptersWithTimestamps =
-      await processSelectedChapters(
-        selectedChapters,
-        transcript,
-        speakerChanges
-      )
 
     const chaptersWithFormattedTime =
       addFormattedTimeToChapters(chaptersWithTimestamps)
@@ -101,38 +375,33 @@ async function main() {
 }
 
 /**
- * Extract speaker changes from VTT file if possible
+ * Check a transcript path, returning an error message if it is invalid
  */
-async function extractSpeakerChangesIfPossible(
-  filePath: string
-): Promise<SpeakerChange[] | undefined> {
-  const extension = path.extname(filePath).toLowerCase()
-
-  // Only extract speaker changes from VTT files
-  if (extension === '.vtt') {
-    const loadingSpinner = spinner()
-    loadingSpinner.start('Extracting speaker changes')
+function validateTranscriptPath(
+  value: string
+): string | undefined {
+  if (!value) return 'Please enter a file path'
+
+  const ext = path.extname(value).toLowerCase()
+  if (!ALLOWED_EXTENSIONS.includes(ext)) {
+    return `File must be one of these formats: ${ALLOWED_EXTENSIONS.join(
+      ', '
+    )}`
+  }
 
-    try {
-      const speakerChanges = await extractSpeakerChanges(
-        filePath
-      )
-      loadingSpinner.stop(
-        `Found ${speakerChanges.length} speaker changes`
-      )
+  return undefined
+}
 
-      return speakerChanges
-    } catch (error) {
-      loadingSpinner.stop(
-        'Failed to extract speaker changes'
-      )
-      return undefined
-    }
+/**
+ * Check a maximum chapter count, returning an error message if it is invalid
+ */
+function validateMaxChapters(
+  value: string
+): string | undefined {
+  const num = parseInt(value)
+  if (isNaN(num) || num < 1 || num > 20) {
+    return 'Please enter a number between 1 and 20'
   }
-
-  consola.info(
-    `File format ${extension} doesn't support speaker extraction`
-  )
   return undefined
 }
 
@@ -144,17 +413,12 @@ async function getTranscriptFilePath() {
     message: 'Enter path to transcript file:',
     placeholder: 'path/to/transcript.txt',
     validate: (value) => {
-      if (!value) return 'Please enter a file path'
+      const error = validateTranscriptPath(value)
+      if (error) return error
 
       try {
         // This will be handled outside in an async context
         fs.access(value)
-        const ext = path.extname(value).toLowerCase()
-        if (!ALLOWED_EXTENSIONS.includes(ext)) {
-          return `File must be one of these formats: ${ALLOWED_EXTENSIONS.join(
-            ', '
-          )}`
-        }
       } catch (e) {
         return 'File does not exist or is not accessible'
       }
@@ -170,14 +434,8 @@ async function getTranscriptFilePath() {
 async function getMaxChapters() {
   const maxChaptersStr = await text({
     message: 'Maximum number of chapters:',
-    placeholder: '15',
-    validate: (value) => {
-      const num = parseInt(value)
-      if (isNaN(num) || num < 1 || num > 20) {
-        return 'Please enter a number between 1 and 20'
-      }
-      return undefined
-    },
+    placeholder: String(DEFAULT_MAX_CHAPTERS),
+    validate: validateMaxChapters,
   })
 
   if (isCancel(maxChaptersStr)) {
@@ -187,19 +445,79 @@ async function getMaxChapters() {
   return parseInt(String(maxChaptersStr))
 }
 
+/**
+ * Ask for the detection strategy. Windowed detection needs a timed
+ * transcript, so untimed text always uses the full strategy.
+ */
+async function getStrategy(
+  cues: TranscriptCue[]
+): Promise<ChapterStrategy> {
+  if (cues.length === 0) {
+    return 'full'
+  }
+
+  const strategy = await select({
+    message: 'How should chapters be detected?',
+    options: [
+      {
+        value: 'full' as ChapterStrategy,
+        label: 'Whole transcript at once',
+      },
+      {
+        value: 'windowed' as ChapterStrategy,
+        label: 'Window by window (for long episodes)',
+      },
+      {
+        value: 'structured' as ChapterStrategy,
+        label: 'Titles and timestamps in a single call',
+      },
+    ],
+  })
+
+  if (isCancel(strategy)) {
+    handleCancel()
+  }
+
+  return strategy
+}
+
+/**
+ * Ask whether to move the chapter starts to nearby sentence starts and
+ * speaker turns, which only a timed transcript has
+ */
+async function getSnap(
+  cues: TranscriptCue[]
+): Promise<SnapOptions | undefined> {
+  if (cues.length === 0) {
+    return undefined
+  }
+
+  const shouldSnap = await confirm({
+    message:
+      'Snap chapter starts to nearby sentence starts and speaker turns?',
+    initialValue: true,
+  })
+
+  if (isCancel(shouldSnap)) {
+    handleCancel()
+  }
+
+  return shouldSnap ? {} : undefined
+}
+
 /**
  * Read the transcript file contents
  */
 async function readTranscriptFile(
   filePath: string
-): Promise<string> {
+): Promise<{ transcript: string; cues: TranscriptCue[] }> {
   const loadingSpinner = spinner()
   loadingSpinner.start('Reading transcript file')
 
   try {
-    const transcript = await fs.readFile(filePath, 'utf-8')
+    const loaded = await loadTranscript(filePath)
     loadingSpinner.stop('Transcript loaded successfully')
-    return transcript
+    return loaded
   } catch (error: unknown) {
     loadingSpinner.stop('Failed to read transcript file')
     consola.error(
@@ -214,11 +532,15 @@ async function readTranscriptFile(
 }
 
 /**
- * Generate initial chapters from transcript
+ * Run the chapter pipeline with a spinner, letting the user pick which
+ * of the detected chapters to keep before timestamps are looked up
  */
-async function generateInitialChapters(
+async function generateChapters(
   transcript: string,
-  maxChapters: number
+  cues: TranscriptCue[],
+  maxChapters: number,
+  strategy: ChapterStrategy,
+  snap?: SnapOptions
 ): Promise<Chapter[]> {
   const loadingSpinner = spinner()
   loadingSpinner.start(
@@ -226,22 +548,52 @@ async function generateInitialChapters(
   )
 
   try {
-    const initialChapters =
-      await splitTranscriptIntoChapters(
-        transcript,
-        maxChapters
-      )
-    loadingSpinner.stop()
-
-    consola.success(
-      `Generated ${initialChapters.length} initial chapters:`
+    const chapters = await processTranscriptChapters(
+      transcript,
+      {
+        cues,
+        maxChapters,
+        strategy,
+        snap,
+        // The spinner stopped when the topics came in
+        selectChapters: async (initialChapters) => {
+          const selected = await selectChapters(
+            initialChapters
+          )
+          loadingSpinner.start(
+            'Processing selected chapters'
+          )
+          return selected
+        },
+        onProgress: (progress) => {
+          if (progress.step === 'speakerChanges') {
+            loadingSpinner.message(
+              `Found ${progress.speakerChanges.length} speaker changes, finding chapter topics`
+            )
+          } else if (progress.step === 'topics') {
+            loadingSpinner.stop(
+              `Generated ${progress.chapters.length} initial chapters:`
+            )
+            progress.chapters.forEach((chapter, index) => {
+              consola.info(`${index + 1}. ${chapter.title}`)
+            })
+          } else if (progress.step === 'timestamp') {
+            loadingSpinner.message(
+              `Processing chapter ${
+                progress.index + 1
+              } of ${progress.total}...`
+            )
+          } else if (progress.step === 'snapped') {
+            loadingSpinner.message(
+              `Snapped ${progress.results.length} chapter starts`
+            )
+          }
+        },
+      }
     )
 
-    initialChapters.forEach((chapter, index) => {
-      consola.info(`${index + 1}. ${chapter.title}`)
-    })
-
-    return initialChapters
+    loadingSpinner.stop('Chapters processed successfully')
+    return chapters
   } catch (error: unknown) {
     loadingSpinner.stop('Failed to generate chapters')
     consola.error(
@@ -314,49 +666,71 @@ async function selectChapters(
 }
 
 /**
- * Process selected chapters to find timestamps
+ * Read a transcript of any supported format. SRT and timestamped text
+ * are converted to VTT before they reach the model. A transcript whose
+ * cues can't be parsed is still sent as text, just without timings or
+ * speaker changes.
  */
-async function processSelectedChapters(
-  selectedChapters: Chapter[],
-  transcript: string,
-  speakerChanges?: SpeakerChange[]
-): Promise<Chapter[]> {
-  const loadingSpinner = spinner()
-  loadingSpinner.start('Processing selected chapters')
+async function loadTranscript(
+  filePath: string,
+  speakers?: string[]
+): Promise<{ transcript: string; cues: TranscriptCue[] }> {
+  const content = await fs.readFile(filePath, 'utf-8')
+  const format = getTranscriptFormat(filePath)
 
   try {
-    // Find timestamps for each selected chapter sequentially
-    const chaptersWithTimestamps: Chapter[] = []
-    for (let i = 0; i < selectedChapters.length; i++) {
-      const previousChapter =
-        i > 0 ? chaptersWithTimestamps[i - 1] : undefined
-      loadingSpinner.message(
-        `Processing chapter ${i + 1} of ${
-          selectedChapters.length
-        }...`
-      )
-      const chapterWithTimestamp =
-        await findChapterTimestamps(
-          selectedChapters[i],
-          transcript,
-          previousChapter,
-          speakerChanges
-        )
-      chaptersWithTimestamps.push(chapterWithTimestamp)
+    return {
+      transcript: normalizeTranscript(content, format, {
+        speakers,
+      }),
+      cues: parseTranscript(content, format, { speakers }),
     }
-
-    loadingSpinner.stop('Chapters processed successfully')
-    return chaptersWithTimestamps
   } catch (error: unknown) {
-    loadingSpinner.stop('Failed to process chapters')
-    consola.error(
-      `Error processing chapters: ${
+    consola.warn(
+      `Couldn't read cues from ${filePath}, continuing without speaker changes: ${
         error instanceof Error
           ? error.message
           : String(error)
       }`
     )
-    process.exit(1)
+    return { transcript: content, cues: [] }
+  }
+}
+
+/**
+ * Log the progress of a headless run
+ */
+function logProgress(progress: ChapterProgress): void {
+  switch (progress.step) {
+    case 'speakerChanges':
+      consola.info(
+        `Found ${progress.speakerChanges.length} speaker changes`
+      )
+      break
+    case 'topics':
+      consola.info(
+        `Generated ${progress.chapters.length} chapters`
+      )
+      break
+    case 'timestamp':
+      consola.start(
+        `Finding the start of "${
+          progress.chapter.title
+        }" (${progress.index + 1}/${progress.total})`
+      )
+      break
+    case 'silences':
+      consola.start(
+        `Detecting silences in ${progress.audioPath}...`
+      )
+      break
+    case 'snapped':
+      consola.info(
+        `Snapped chapter starts:\n${formatSnapReport(
+          progress.results
+        )}`
+      )
+      break
   }
 }
 
@@ -400,7 +774,7 @@ async function handleChapterSaving(
   originalFilePath: string
 ): Promise<void> {
   const shouldSave = await confirm({
-    message: 'Save chapters to a JSON file?',
+    message: 'Save chapters to a file?',
   })
 
   if (isCancel(shouldSave)) {
@@ -408,24 +782,41 @@ async function handleChapterSaving(
   }
 
   if (shouldSave === true) {
-    await saveChaptersToFile(chapters, originalFilePath)
+    const format = await select({
+      message: 'Which format?',
+      options: [
+        {
+          value: 'txt' as OutputFormat,
+          label: 'chapters.txt (ready to paste)',
+        },
+        { value: 'json' as OutputFormat, label: 'JSON' },
+      ],
+    })
+
+    if (isCancel(format)) {
+      handleCancel()
+    }
+
+    await saveChaptersToFile(
+      chapters,
+      originalFilePath,
+      format
+    )
   }
 }
 
 /**
- * Save chapters to a JSON file
+ * Save chapters to a file in the chosen format
  */
 async function saveChaptersToFile(
   chapters: ChapterWithFormattedTime[],
-  originalFilePath: string
+  originalFilePath: string,
+  format: OutputFormat
 ): Promise<void> {
   // Get output path
-  const defaultOutputPath = path.join(
-    path.dirname(originalFilePath),
-    `${path.basename(
-      originalFilePath,
-      path.extname(originalFilePath)
-    )}-chapters.json`
+  const defaultOutputPath = getDefaultOutputPath(
+    originalFilePath,
+    format
   )
 
   const outputPath = await text({
@@ -443,10 +834,10 @@ async function saveChaptersToFile(
     const loadingSpinner = spinner()
     loadingSpinner.start('Saving chapters to file')
     try {
-      await fs.writeFile(
+      await writeChaptersFile(
+        chapters,
         String(outputPath),
-        JSON.stringify(chapters, null, 2),
-        'utf-8'
+        format
       )
       loadingSpinner.stop('Chapters saved successfully')
       consola.success(`Chapters saved to ${outputPath}`)
@@ -463,6 +854,48 @@ async function saveChaptersToFile(
   }
 }
 
+/**
+ * Build the default output path next to the transcript
+ */
+function getDefaultOutputPath(
+  originalFilePath: string,
+  format: OutputFormat
+): string {
+  return path.join(
+    path.dirname(originalFilePath),
+    `${path.basename(
+      originalFilePath,
+      path.extname(originalFilePath)
+    )}-chapters.${format}`
+  )
+}
+
+/**
+ * Write chapters to disk in the requested format
+ */
+async function writeChaptersFile(
+  chapters: ChapterWithFormattedTime[],
+  outputPath: string,
+  format: OutputFormat
+): Promise<void> {
+  switch (format) {
+    case 'json':
+      await fs.writeFile(
+        outputPath,
+        JSON.stringify(chapters, null, 2),
+        'utf-8'
+      )
+      break
+    case 'txt':
+      await fs.writeFile(
+        outputPath,
+        formatChaptersFile(chapters),
+        'utf-8'
+      )
+      break
+  }
+}
+
 /**
  * Handle cancellation of an operation
  */
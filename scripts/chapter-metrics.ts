@@ -0,0 +1,224 @@
+import type { ChapterMarker } from './chapters-file'
+
+export interface BoundaryMatch {
+  reference: ChapterMarker
+  predicted: ChapterMarker
+  error: number // absolute difference in seconds
+  titleSimilarity: number // 0-1
+}
+
+export interface ChapterScore {
+  referenceCount: number // boundaries after the opening chapter
+  predictedCount: number // boundaries after the opening chapter
+  matches: BoundaryMatch[]
+  precision: number
+  recall: number
+  f1: number
+  meanAbsoluteError: number | undefined // over matched boundaries
+  meanTitleSimilarity: number | undefined // over matched boundaries
+}
+
+/**
+ * Pair predicted and reference boundaries one-to-one, closest pairs first,
+ * only accepting pairs that are at most `tolerance` seconds apart
+ */
+export function matchBoundaries(
+  reference: ChapterMarker[],
+  predicted: ChapterMarker[],
+  tolerance: number
+): BoundaryMatch[] {
+  const candidates: {
+    referenceIndex: number
+    predictedIndex: number
+    error: number
+  }[] = []
+
+  reference.forEach((ref, referenceIndex) => {
+    predicted.forEach((pred, predictedIndex) => {
+      const error = Math.abs(ref.startTime - pred.startTime)
+      if (error <= tolerance) {
+        candidates.push({
+          referenceIndex,
+          predictedIndex,
+          error,
+        })
+      }
+    })
+  })
+
+  candidates.sort((a, b) => a.error - b.error)
+
+  const usedReferences = new Set<number>()
+  const usedPredictions = new Set<number>()
+  const matches: BoundaryMatch[] = []
+
+  for (const candidate of candidates) {
+    if (
+      usedReferences.has(candidate.referenceIndex) ||
+      usedPredictions.has(candidate.predictedIndex)
+    ) {
+      continue
+    }
+    usedReferences.add(candidate.referenceIndex)
+    usedPredictions.add(candidate.predictedIndex)
+
+    const ref = reference[candidate.referenceIndex]
+    const pred = predicted[candidate.predictedIndex]
+    matches.push({
+      reference: ref,
+      predicted: pred,
+      error: candidate.error,
+      titleSimilarity: titleSimilarity(
+        ref.title,
+        pred.title
+      ),
+    })
+  }
+
+  return matches.sort(
+    (a, b) => a.reference.startTime - b.reference.startTime
+  )
+}
+
+/**
+ * Score predicted chapters against a human-made reference. Both lists
+ * always open with a chapter at 00:00, so the opening chapter of each
+ * is left out rather than counted as a free match.
+ */
+export function scoreChapters(
+  allReference: ChapterMarker[],
+  allPredicted: ChapterMarker[],
+  tolerance: number
+): ChapterScore {
+  const reference = withoutOpeningChapter(allReference)
+  const predicted = withoutOpeningChapter(allPredicted)
+  const matches = matchBoundaries(
+    reference,
+    predicted,
+    tolerance
+  )
+
+  const precision =
+    predicted.length > 0
+      ? matches.length / predicted.length
+      : 0
+  const recall =
+    reference.length > 0
+      ? matches.length / reference.length
+      : 0
+
+  return {
+    referenceCount: reference.length,
+    predictedCount: predicted.length,
+    matches,
+    precision,
+    recall,
+    f1: harmonicMean(precision, recall),
+    meanAbsoluteError: mean(matches.map((m) => m.error)),
+    meanTitleSimilarity: mean(
+      matches.map((m) => m.titleSimilarity)
+    ),
+  }
+}
+
+/**
+ * Combine per-episode scores by pooling all boundaries
+ */
+export function combineScores(
+  scores: ChapterScore[]
+): ChapterScore {
+  const matches = scores.flatMap((score) => score.matches)
+  const referenceCount = sum(
+    scores.map((score) => score.referenceCount)
+  )
+  const predictedCount = sum(
+    scores.map((score) => score.predictedCount)
+  )
+
+  const precision =
+    predictedCount > 0 ? matches.length / predictedCount : 0
+  const recall =
+    referenceCount > 0 ? matches.length / referenceCount : 0
+
+  return {
+    referenceCount,
+    predictedCount,
+    matches,
+    precision,
+    recall,
+    f1: harmonicMean(precision, recall),
+    meanAbsoluteError: mean(matches.map((m) => m.error)),
+    meanTitleSimilarity: mean(
+      matches.map((m) => m.titleSimilarity)
+    ),
+  }
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams, ignoring case
+ * and punctuation
+ */
+export function titleSimilarity(
+  a: string,
+  b: string
+): number {
+  const aBigrams = bigrams(normalizeTitle(a))
+  const bBigrams = bigrams(normalizeTitle(b))
+
+  if (aBigrams.length === 0 && bBigrams.length === 0) {
+    return normalizeTitle(a) === normalizeTitle(b) ? 1 : 0
+  }
+
+  const counts = new Map<string, number>()
+  for (const bigram of aBigrams) {
+    counts.set(bigram, (counts.get(bigram) || 0) + 1)
+  }
+
+  let overlap = 0
+  for (const bigram of bBigrams) {
+    const count = counts.get(bigram) || 0
+    if (count > 0) {
+      overlap++
+      counts.set(bigram, count - 1)
+    }
+  }
+
+  return (2 * overlap) / (aBigrams.length + bBigrams.length)
+}
+
+function withoutOpeningChapter(
+  chapters: ChapterMarker[]
+): ChapterMarker[] {
+  return [...chapters]
+    .sort((a, b) => a.startTime - b.startTime)
+    .slice(1)
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = []
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2))
+  }
+  return result
+}
+
+function harmonicMean(a: number, b: number): number {
+  return a + b > 0 ? (2 * a * b) / (a + b) : 0
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function mean(values: number[]): number | undefined {
+  return values.length > 0
+    ? sum(values) / values.length
+    : undefined
+}
@@ -0,0 +1,261 @@
+import { formatChapterTimestamp } from './chapters-file'
+import type { SpeakerChange } from './extract-speaker-changes'
+import type { SilenceInterval } from './silence'
+import type { TranscriptCue } from './transcript'
+
+export type BoundaryCandidateKind =
+  | 'silence'
+  | 'sentence'
+  | 'speaker'
+
+/**
+ * A point where a chapter could start, and how good a place that is
+ */
+export interface BoundaryCandidate {
+  timestamp: number // in seconds
+  kind: BoundaryCandidateKind
+  weight: number // 0 to 1
+  reason: string
+}
+
+export interface SnapOptions {
+  window?: number // seconds to look on either side of a proposed start
+}
+
+/**
+ * Where a proposed start moved to and why
+ */
+export interface SnapResult {
+  title: string
+  from: number // in seconds
+  to: number // in seconds
+  score: number // 0 when nothing was close enough
+  reasons: string[]
+}
+
+export const DEFAULT_SNAP_WINDOW = 15
+
+// A pause is a good boundary, but only where it is long
+const SILENCE_WEIGHT = 1
+const FULL_WEIGHT_SILENCE = 2 // seconds
+const SPEAKER_WEIGHT = 0.8
+const SENTENCE_WEIGHT = 0.6
+// Candidates this close together count as the same point
+const COINCIDENCE_SECONDS = 1
+// How much of its score a candidate at the edge of the window loses
+const DISTANCE_PENALTY = 0.5
+
+const SENTENCE_END_PATTERN = /[.!?…]["'”’)\]]*$/
+
+/**
+ * Candidate boundaries from everything that is known about a recording.
+ * Cues that start a sentence and speaker turns are where a chapter can
+ * start; silences add weight to those right after them.
+ */
+export function buildBoundaryCandidates({
+  cues = [],
+  silences = [],
+  speakerChanges = [],
+}: {
+  cues?: TranscriptCue[]
+  silences?: SilenceInterval[]
+  speakerChanges?: SpeakerChange[]
+}): BoundaryCandidate[] {
+  const candidates: BoundaryCandidate[] = []
+
+  for (const silence of silences) {
+    const duration = silence.end - silence.start
+    candidates.push({
+      timestamp: silence.end,
+      kind: 'silence',
+      weight:
+        SILENCE_WEIGHT *
+        Math.min(1, duration / FULL_WEIGHT_SILENCE),
+      reason: `${duration.toFixed(1)}s silence`,
+    })
+  }
+
+  cues.forEach((cue, index) => {
+    const previous = cues[index - 1]
+    if (
+      !previous ||
+      SENTENCE_END_PATTERN.test(previous.text.trim())
+    ) {
+      candidates.push({
+        timestamp: cue.start,
+        kind: 'sentence',
+        weight: SENTENCE_WEIGHT,
+        reason: 'sentence start',
+      })
+    }
+  })
+
+  for (const change of speakerChanges) {
+    candidates.push({
+      timestamp: change.timestamp,
+      kind: 'speaker',
+      weight: SPEAKER_WEIGHT,
+      reason: `${change.speaker} starts talking`,
+    })
+  }
+
+  return candidates.sort(
+    (a, b) => a.timestamp - b.timestamp
+  )
+}
+
+/**
+ * Move a proposed chapter start to the best candidate within the window.
+ * Each sentence start or speaker turn is scored by the candidates that
+ * coincide with it, one per kind, less a penalty for the distance from
+ * the proposed time. Silences on their own are only used when the
+ * transcript has no candidates nearby. Only candidates between `after`
+ * and `before` are considered.
+ */
+export function snapChapterStart(
+  title: string,
+  startTime: number,
+  candidates: BoundaryCandidate[],
+  options: SnapOptions & {
+    after?: number
+    before?: number
+  } = {}
+): SnapResult {
+  const window = options.window ?? DEFAULT_SNAP_WINDOW
+  const after = options.after ?? -Infinity
+  const before = options.before ?? Infinity
+
+  const nearby = candidates.filter(
+    (candidate) =>
+      Math.abs(candidate.timestamp - startTime) <= window &&
+      candidate.timestamp > after &&
+      candidate.timestamp < before
+  )
+  const fromTranscript = nearby.filter(
+    (candidate) => candidate.kind !== 'silence'
+  )
+  const anchors =
+    fromTranscript.length > 0 ? fromTranscript : nearby
+
+  let best: SnapResult | undefined
+  for (const anchor of anchors) {
+    const support = new Map<
+      BoundaryCandidateKind,
+      BoundaryCandidate
+    >()
+    for (const candidate of nearby) {
+      if (
+        Math.abs(candidate.timestamp - anchor.timestamp) >
+        COINCIDENCE_SECONDS
+      ) {
+        continue
+      }
+      const current = support.get(candidate.kind)
+      if (!current || candidate.weight > current.weight) {
+        support.set(candidate.kind, candidate)
+      }
+    }
+
+    const distance = Math.abs(anchor.timestamp - startTime)
+    const weight = [...support.values()].reduce(
+      (sum, candidate) => sum + candidate.weight,
+      0
+    )
+    const score = round(
+      weight * (1 - (DISTANCE_PENALTY * distance) / window)
+    )
+
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score &&
+        distance < Math.abs(best.to - startTime))
+    ) {
+      best = {
+        title,
+        from: startTime,
+        to: anchor.timestamp,
+        score,
+        reasons: [
+          ...[...support.values()].map(
+            (candidate) => candidate.reason
+          ),
+          `${distance.toFixed(1)}s from the proposed start`,
+        ],
+      }
+    }
+  }
+
+  return (
+    best ?? {
+      title,
+      from: startTime,
+      to: startTime,
+      score: 0,
+      reasons: [`no candidates within ${window}s`],
+    }
+  )
+}
+
+/**
+ * Snap every chapter start in order. The first chapter stays at the
+ * start of the episode, and no chapter moves to or before the one
+ * before it, or to or past the proposed start of the one after it, so
+ * a chapter that keeps its start can't be overtaken either.
+ */
+export function snapChapters<
+  T extends { title: string; startTime?: number }
+>(
+  chapters: T[],
+  candidates: BoundaryCandidate[],
+  options: SnapOptions = {}
+): { chapters: T[]; results: SnapResult[] } {
+  const snapped: T[] = []
+  const results: SnapResult[] = []
+
+  for (const [index, chapter] of chapters.entries()) {
+    if (chapter.startTime === undefined || index === 0) {
+      snapped.push(chapter)
+      continue
+    }
+
+    const result = snapChapterStart(
+      chapter.title,
+      chapter.startTime,
+      candidates,
+      {
+        ...options,
+        after: snapped[index - 1].startTime,
+        before: chapters[index + 1]?.startTime,
+      }
+    )
+    results.push(result)
+    snapped.push({ ...chapter, startTime: result.to })
+  }
+
+  return { chapters: snapped, results }
+}
+
+/**
+ * One line per snapped chapter: where it moved and why
+ */
+export function formatSnapReport(
+  results: SnapResult[]
+): string {
+  return results
+    .map(
+      (result) =>
+        `${formatChapterTimestamp(
+          result.from
+        )} → ${formatChapterTimestamp(result.to)}  ${
+          result.title
+        } (score ${result.score}: ${result.reasons.join(
+          ', '
+        )})`
+    )
+    .join('\n')
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
@@ -0,0 +1,125 @@
+import type { Chapter } from './transcript-chapters'
+
+export interface ChapterMarker {
+  title: string
+  startTime: number // in seconds
+}
+
+const TIMESTAMP_PATTERN = /^(\d+):(\d{2})(?::(\d{2}))?$/
+const INLINE_MARKER_PATTERN =
+  /^(\d+:\d{2}(?::\d{2})?)\s+(.+)$/
+
+/**
+ * Format a chapter start the way our published chapters.txt files do:
+ * MM:SS, switching to HH:MM:SS once the episode passes the hour mark
+ */
+export function formatChapterTimestamp(
+  seconds: number
+): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+
+  const parts = [minutes, secs]
+  if (hours > 0) {
+    parts.unshift(hours)
+  }
+
+  return parts
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':')
+}
+
+/**
+ * Parse an MM:SS or HH:MM:SS chapter timestamp to seconds
+ */
+export function parseChapterTimestamp(
+  timestamp: string
+): number | undefined {
+  const match = timestamp.trim().match(TIMESTAMP_PATTERN)
+  if (!match) return undefined
+
+  const [, first, second, third] = match
+
+  // Two parts are MM:SS, three are HH:MM:SS
+  if (third === undefined) {
+    return parseInt(first, 10) * 60 + parseInt(second, 10)
+  }
+  return (
+    parseInt(first, 10) * 3600 +
+    parseInt(second, 10) * 60 +
+    parseInt(third, 10)
+  )
+}
+
+/**
+ * Serialize chapters to the chapters.txt layout: a timestamp line
+ * followed by a title line for every chapter
+ */
+export function formatChaptersFile(
+  chapters: Chapter[] | ChapterMarker[]
+): string {
+  return chapters
+    .map((chapter) => {
+      if (chapter.startTime === undefined) {
+        throw new Error(
+          `Chapter "${chapter.title}" has no start time`
+        )
+      }
+      return `${formatChapterTimestamp(
+        chapter.startTime
+      )}\n${chapter.title}`
+    })
+    .join('\n')
+}
+
+/**
+ * Parse a chapters.txt file. Also accepts the single-line
+ * "00:54 Title" variant.
+ */
+export function parseChaptersFile(
+  content: string
+): ChapterMarker[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+
+  const markers: ChapterMarker[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const startTime = parseChapterTimestamp(lines[i])
+
+    if (startTime !== undefined) {
+      const title = lines[i + 1]
+      if (
+        title === undefined ||
+        parseChapterTimestamp(title) !== undefined
+      ) {
+        throw new Error(
+          `Missing title after timestamp "${lines[i]}"`
+        )
+      }
+      markers.push({ title, startTime })
+      i++
+      continue
+    }
+
+    const inlineMatch = lines[i].match(
+      INLINE_MARKER_PATTERN
+    )
+    if (inlineMatch) {
+      markers.push({
+        title: inlineMatch[2].trim(),
+        startTime: parseChapterTimestamp(inlineMatch[1])!,
+      })
+      continue
+    }
+
+    throw new Error(
+      `Expected a timestamp, got "${lines[i]}"`
+    )
+  }
+
+  return markers
+}
@@ -0,0 +1,623 @@
+import ffmpeg from 'fluent-ffmpeg'
+import { readFile } from 'fs/promises'
+import * as path from 'path'
+import { z } from 'zod'
+import type { TranscriptCue } from './transcript'
+
+export interface SpeakerTurn {
+  start: number // in seconds
+  end: number // in seconds
+  speaker: string
+}
+
+export interface SpeakerTrack {
+  speaker: string
+  path: string
+}
+
+const speakerConfigSchema = z.object({
+  speakers: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        track: z.string().optional(), // audio file with only this speaker
+      })
+    )
+    .min(1),
+})
+
+/**
+ * Who speaks in an episode, in the order they are expected to speak
+ * first (usually the host who opens the show)
+ */
+export type SpeakerConfig = z.infer<
+  typeof speakerConfigSchema
+>
+
+const SAMPLE_RATE = 16000
+// Per-track levels are compared every 100 ms
+const LEVEL_FRAME_SIZE = 1600
+// Spectra are taken over 32 ms frames
+const SPECTRUM_FRAME_SIZE = 512
+const SPECTRUM_BANDS = 20
+const SPECTRUM_MIN_FREQUENCY = 100 // in Hz
+const SPECTRUM_MAX_FREQUENCY = 4000 // in Hz
+
+// Quieter than this (dBFS) is nobody talking
+const SPEECH_FLOOR = -45
+// Pauses shorter than this do not end a turn
+const MAX_TURN_GAP = 0.5 // in seconds
+// Shorter bursts are coughs, laughs or bleed, not turns
+const MIN_TURN_DURATION = 0.3 // in seconds
+const MAX_KMEANS_ITERATIONS = 50
+
+/**
+ * Read a speaker config. Track paths are relative to the config file.
+ */
+export async function loadSpeakerConfig(
+  configPath: string
+): Promise<SpeakerConfig> {
+  const parsed = speakerConfigSchema.safeParse(
+    JSON.parse(await readFile(configPath, 'utf-8'))
+  )
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid speaker config ${configPath}: ${parsed.error.message}`
+    )
+  }
+
+  return {
+    speakers: parsed.data.speakers.map((speaker) => ({
+      ...speaker,
+      track:
+        speaker.track &&
+        path.resolve(
+          path.dirname(configPath),
+          speaker.track
+        ),
+    })),
+  }
+}
+
+/**
+ * Tracks named in a speaker config
+ */
+export function getConfiguredTracks(
+  config: SpeakerConfig
+): SpeakerTrack[] {
+  return config.speakers.flatMap((speaker) =>
+    speaker.track
+      ? [{ speaker: speaker.name, path: speaker.track }]
+      : []
+  )
+}
+
+/**
+ * Parse a "Name=path" track option
+ */
+export function parseSpeakerTrack(
+  option: string
+): SpeakerTrack {
+  const separator = option.indexOf('=')
+  if (separator <= 0) {
+    throw new Error(
+      `Tracks must be given as name=path, got "${option}"`
+    )
+  }
+  return {
+    speaker: option.slice(0, separator),
+    path: option.slice(separator + 1),
+  }
+}
+
+/**
+ * Find speaker turns from one recording per speaker. Each track is
+ * compared against its own loudest speech, so a quiet microphone is not
+ * drowned out by the others' bleed.
+ */
+export async function diarizeTracks(
+  tracks: SpeakerTrack[]
+): Promise<SpeakerTurn[]> {
+  const levels: number[][] = []
+  for (const track of tracks) {
+    const trackLevels: number[] = []
+    await readFrames(
+      track.path,
+      LEVEL_FRAME_SIZE,
+      (samples) =>
+        trackLevels.push(toDecibels(rms(samples)))
+    )
+    levels.push(trackLevels)
+  }
+
+  return turnsFromTrackLevels(
+    levels,
+    tracks.map((track) => track.speaker),
+    LEVEL_FRAME_SIZE / SAMPLE_RATE
+  )
+}
+
+/**
+ * Turn per-track levels (dBFS per frame) into speaker turns: in every
+ * frame the track furthest above its own typical speech level talks,
+ * as long as it is above the speech floor.
+ */
+export function turnsFromTrackLevels(
+  levels: number[][],
+  speakers: string[],
+  frameDuration: number
+): SpeakerTurn[] {
+  const references = levels.map((trackLevels) =>
+    percentile(
+      trackLevels.filter((level) => level > SPEECH_FLOOR),
+      0.9
+    )
+  )
+  const frameCount = Math.max(
+    0,
+    ...levels.map((trackLevels) => trackLevels.length)
+  )
+
+  const frameSpeakers: (string | undefined)[] = []
+  for (let frame = 0; frame < frameCount; frame++) {
+    let best: number | undefined
+    let bestRelative = -Infinity
+    levels.forEach((trackLevels, track) => {
+      const level = trackLevels[frame] ?? -Infinity
+      const relative = level - (references[track] ?? 0)
+      if (level > SPEECH_FLOOR && relative > bestRelative) {
+        best = track
+        bestRelative = relative
+      }
+    })
+    frameSpeakers.push(
+      best === undefined ? undefined : speakers[best]
+    )
+  }
+
+  return buildTurns(frameSpeakers, frameDuration)
+}
+
+/**
+ * Join per-frame speakers into turns, bridging short pauses within a
+ * speaker's turn and dropping bursts too short to be a turn
+ */
+export function buildTurns(
+  frameSpeakers: (string | undefined)[],
+  frameDuration: number
+): SpeakerTurn[] {
+  const runs: SpeakerTurn[] = []
+  frameSpeakers.forEach((speaker, frame) => {
+    if (!speaker) return
+    const start = frame * frameDuration
+    const previous = runs[runs.length - 1]
+    if (
+      previous?.speaker === speaker &&
+      start - previous.end <= MAX_TURN_GAP
+    ) {
+      previous.end = start + frameDuration
+    } else {
+      runs.push({
+        start,
+        end: start + frameDuration,
+        speaker,
+      })
+    }
+  })
+
+  const turns: SpeakerTurn[] = []
+  for (const run of runs) {
+    if (run.end - run.start < MIN_TURN_DURATION) continue
+    const previous = turns[turns.length - 1]
+    // Dropping a burst can leave the same speaker on both sides
+    if (
+      previous?.speaker === run.speaker &&
+      run.start - previous.end <= MAX_TURN_GAP
+    ) {
+      previous.end = run.end
+    } else {
+      turns.push({ ...run })
+    }
+  }
+
+  return turns.map((turn) => ({
+    ...turn,
+    start: round(turn.start),
+    end: round(turn.end),
+  }))
+}
+
+/**
+ * Group the cues of a single-track recording into `speakerCount`
+ * speakers by the average spectrum of each cue. This tells voices apart
+ * reasonably well with a fixed set of microphones, but a cue with two
+ * speakers gets the label of whoever talks more.
+ */
+export async function diarizeByClustering(
+  inputPath: string,
+  cues: TranscriptCue[],
+  speakerCount: number
+): Promise<SpeakerTurn[]> {
+  const frameDuration = SPECTRUM_FRAME_SIZE / SAMPLE_RATE
+  const sums = cues.map(() =>
+    Array<number>(SPECTRUM_BANDS).fill(0)
+  )
+  const counts = cues.map(() => 0)
+  const bandEdges = getBandEdges()
+  let cueIndex = 0
+
+  await readFrames(
+    inputPath,
+    SPECTRUM_FRAME_SIZE,
+    (samples, frame) => {
+      const time = frame * frameDuration
+      while (
+        cueIndex < cues.length &&
+        cues[cueIndex].end <= time
+      ) {
+        cueIndex++
+      }
+      const cue = cues[cueIndex]
+      if (!cue || cue.start > time) return
+      if (toDecibels(rms(samples)) < SPEECH_FLOOR) return
+
+      const bands = getBandEnergies(samples, bandEdges)
+      bands.forEach((energy, band) => {
+        sums[cueIndex][band] += Math.log(energy + 1e-10)
+      })
+      counts[cueIndex]++
+    }
+  )
+
+  const spoken = cues
+    .map((cue, i) => ({ cue, i }))
+    .filter(({ i }) => counts[i] > 0)
+  const labels = clusterFeatures(
+    standardize(
+      spoken.map(({ i }) =>
+        sums[i].map((sum) => sum / counts[i])
+      )
+    ),
+    speakerCount
+  )
+
+  return spoken.map(({ cue }, i) => ({
+    start: cue.start,
+    end: cue.end,
+    speaker: `Speaker ${labels[i] + 1}`,
+  }))
+}
+
+/**
+ * k-means over feature vectors. Seeds are picked farthest-first from
+ * the first vector, so the result is the same on every run.
+ */
+export function clusterFeatures(
+  features: number[][],
+  k: number
+): number[] {
+  if (features.length === 0) return []
+  const clusterCount = Math.min(k, features.length)
+
+  const centroids = [features[0]]
+  while (centroids.length < clusterCount) {
+    let farthest = features[0]
+    let farthestDistance = -1
+    for (const feature of features) {
+      const nearest = Math.min(
+        ...centroids.map((c) => distance(feature, c))
+      )
+      if (nearest > farthestDistance) {
+        farthest = feature
+        farthestDistance = nearest
+      }
+    }
+    centroids.push(farthest)
+  }
+
+  let labels = features.map(() => -1)
+  for (
+    let iteration = 0;
+    iteration < MAX_KMEANS_ITERATIONS;
+    iteration++
+  ) {
+    const next = features.map((feature) =>
+      nearestIndex(feature, centroids)
+    )
+    if (next.every((label, i) => label === labels[i])) break
+    labels = next
+
+    centroids.forEach((centroid, cluster) => {
+      const members = features.filter(
+        (_, i) => labels[i] === cluster
+      )
+      if (members.length === 0) return
+      centroids[cluster] = centroid.map(
+        (_, dimension) =>
+          members.reduce(
+            (sum, m) => sum + m[dimension],
+            0
+          ) / members.length
+      )
+    })
+  }
+
+  return labels
+}
+
+/**
+ * Read speaker turns from an RTTM file, the output format of
+ * embedding-based diarizers like pyannote
+ */
+export function parseRTTM(content: string): SpeakerTurn[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim().split(/\s+/))
+    .filter((fields) => fields[0] === 'SPEAKER')
+    .map((fields) => {
+      const start = parseFloat(fields[3])
+      return {
+        start,
+        end: round(start + parseFloat(fields[4])),
+        speaker: fields[7],
+      }
+    })
+    .sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Give anonymous speaker labels the configured names, in order of who
+ * speaks first. Labels beyond the configured names are kept.
+ */
+export function nameSpeakers(
+  turns: SpeakerTurn[],
+  names: string[]
+): SpeakerTurn[] {
+  const mapping = new Map<string, string>()
+  for (const turn of [...turns].sort(
+    (a, b) => a.start - b.start
+  )) {
+    if (!mapping.has(turn.speaker)) {
+      mapping.set(
+        turn.speaker,
+        names[mapping.size] ?? turn.speaker
+      )
+    }
+  }
+
+  return turns.map((turn) => ({
+    ...turn,
+    speaker: mapping.get(turn.speaker) ?? turn.speaker,
+  }))
+}
+
+/**
+ * Set the speaker of every cue to the one with the most overlap. Cues
+ * nobody overlaps keep the speaker they had.
+ */
+export function labelCues(
+  cues: TranscriptCue[],
+  turns: SpeakerTurn[]
+): TranscriptCue[] {
+  return cues.map((cue) => {
+    const talkTime = new Map<string, number>()
+    for (const turn of turns) {
+      const overlap =
+        Math.min(cue.end, turn.end) -
+        Math.max(cue.start, turn.start)
+      if (overlap > 0) {
+        talkTime.set(
+          turn.speaker,
+          (talkTime.get(turn.speaker) ?? 0) + overlap
+        )
+      }
+    }
+
+    const mostTalkTime = [...talkTime.entries()].sort(
+      (a, b) => b[1] - a[1]
+    )[0]
+    return mostTalkTime
+      ? { ...cue, speaker: mostTalkTime[0] }
+      : cue
+  })
+}
+
+/**
+ * Decode a file to 16 kHz mono and hand it over in frames of
+ * `frameSize` samples, without holding the whole recording in memory
+ */
+function readFrames(
+  inputPath: string,
+  frameSize: number,
+  onFrame: (samples: Float32Array, frame: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frameBytes = frameSize * 2
+    let pending = Buffer.alloc(0)
+    let frame = 0
+
+    const command = ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(SAMPLE_RATE)
+      .audioCodec('pcm_s16le')
+      .format('s16le')
+      .on('error', (err: Error) => reject(err))
+
+    command
+      .pipe()
+      .on('data', (data: Buffer) => {
+        pending = Buffer.concat([pending, data])
+        while (pending.length >= frameBytes) {
+          const samples = new Float32Array(frameSize)
+          for (let i = 0; i < frameSize; i++) {
+            samples[i] = pending.readInt16LE(i * 2) / 32768
+          }
+          onFrame(samples, frame++)
+          pending = pending.subarray(frameBytes)
+        }
+      })
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+  })
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0
+  for (const sample of samples) sum += sample * sample
+  return Math.sqrt(sum / samples.length)
+}
+
+function toDecibels(value: number): number {
+  return 20 * Math.log10(value + 1e-10)
+}
+
+// Band edges as FFT bin indexes, spaced evenly on the mel scale
+function getBandEdges(): number[] {
+  const toMel = (hz: number) =>
+    2595 * Math.log10(1 + hz / 700)
+  const fromMel = (mel: number) =>
+    700 * (10 ** (mel / 2595) - 1)
+  const minMel = toMel(SPECTRUM_MIN_FREQUENCY)
+  const maxMel = toMel(SPECTRUM_MAX_FREQUENCY)
+
+  return Array.from(
+    { length: SPECTRUM_BANDS + 1 },
+    (_, i) =>
+      Math.round(
+        (fromMel(
+          minMel + ((maxMel - minMel) * i) / SPECTRUM_BANDS
+        ) *
+          SPECTRUM_FRAME_SIZE) /
+          SAMPLE_RATE
+      )
+  )
+}
+
+function getBandEnergies(
+  samples: Float32Array,
+  bandEdges: number[]
+): number[] {
+  const real = Array.from(
+    samples,
+    (sample, i) =>
+      sample *
+      (0.5 -
+        0.5 * Math.cos((2 * Math.PI * i) / samples.length))
+  )
+  const imaginary = Array<number>(samples.length).fill(0)
+  fft(real, imaginary)
+
+  return bandEdges.slice(0, -1).map((from, band) => {
+    let energy = 0
+    for (
+      let bin = from;
+      bin < Math.max(bandEdges[band + 1], from + 1);
+      bin++
+    ) {
+      energy += real[bin] ** 2 + imaginary[bin] ** 2
+    }
+    return energy
+  })
+}
+
+// In-place radix-2 FFT; the length must be a power of two
+function fft(real: number[], imaginary: number[]): void {
+  const n = real.length
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j], real[i]]
+      ;[imaginary[i], imaginary[j]] = [
+        imaginary[j],
+        imaginary[i],
+      ]
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + size / 2
+        const re = real[b] * cos - imaginary[b] * sin
+        const im = real[b] * sin + imaginary[b] * cos
+        real[b] = real[a] - re
+        imaginary[b] = imaginary[a] - im
+        real[a] += re
+        imaginary[a] += im
+      }
+    }
+  }
+}
+
+// Scale every dimension to zero mean and unit variance, so loud bands
+// do not outweigh the rest
+function standardize(features: number[][]): number[][] {
+  if (features.length === 0) return features
+  const dimensions = features[0].length
+
+  const means = Array.from(
+    { length: dimensions },
+    (_, d) =>
+      features.reduce((sum, f) => sum + f[d], 0) /
+      features.length
+  )
+  const deviations = Array.from(
+    { length: dimensions },
+    (_, d) =>
+      Math.sqrt(
+        features.reduce(
+          (sum, f) => sum + (f[d] - means[d]) ** 2,
+          0
+        ) / features.length
+      ) || 1
+  )
+
+  return features.map((f) =>
+    f.map((value, d) => (value - means[d]) / deviations[d])
+  )
+}
+
+function nearestIndex(
+  feature: number[],
+  centroids: number[][]
+): number {
+  let best = 0
+  centroids.forEach((centroid, i) => {
+    if (
+      distance(feature, centroid) <
+      distance(feature, centroids[best])
+    ) {
+      best = i
+    }
+  })
+  return best
+}
+
+function distance(a: number[], b: number[]): number {
+  return a.reduce(
+    (sum, value, i) => sum + (value - b[i]) ** 2,
+    0
+  )
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[
+    Math.min(
+      sorted.length - 1,
+      Math.floor(p * sorted.length)
+    )
+  ]
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
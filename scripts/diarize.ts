@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import {
+  diarizeByClustering,
+  diarizeTracks,
+  getConfiguredTracks,
+  labelCues,
+  loadSpeakerConfig,
+  nameSpeakers,
+  parseRTTM,
+  parseSpeakerTrack,
+  SpeakerConfig,
+  SpeakerTurn,
+} from './diarization'
+import {
+  getArtifactPath,
+  getEpisodeSpeakers,
+  loadEpisode,
+} from './episode'
+import { getSpeakerChanges } from './extract-speaker-changes'
+import { parseVTT, serializeVTT } from './transcript'
+
+const DEFAULT_SPEAKER_COUNT = 2
+
+const USAGE = `Usage: npx ts-node scripts/diarize.ts <transcript.vtt> [options]
+
+Adds <v Name> speaker tags to a VTT transcript.
+
+Options:
+  -e, --episode <id>      Tag the episode's transcript, with its hosts,
+                          guests and tracks as the speakers and its audio
+                          to cluster when there are no tracks
+  -c, --config <path>     Speaker config: {"speakers": [{"name", "track"?}]},
+                          names in the order they first speak
+  -t, --track <name=path> Recording with only this speaker (repeatable);
+                          tracks in the config are used too
+  -a, --audio <path>      Single recording to cluster voices in, when
+                          there are no tracks
+  -r, --rttm <path>       Speaker turns from an external diarizer (e.g. pyannote)
+  -n, --speakers <n>      Number of voices to cluster (default: config
+                          speakers, or 2)
+  -o, --output <path>     Where to write the VTT (default: print it)
+  -w, --write             Tag the transcript in place
+  -h, --help              Show this help`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      episode: { type: 'string', short: 'e' },
+      config: { type: 'string', short: 'c' },
+      track: { type: 'string', short: 't', multiple: true },
+      audio: { type: 'string', short: 'a' },
+      rttm: { type: 'string', short: 'r' },
+      speakers: { type: 'string', short: 'n' },
+      output: { type: 'string', short: 'o' },
+      write: { type: 'boolean', short: 'w' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const transcriptPath =
+    positionals[0] ??
+    (episode && getArtifactPath(episode, 'transcript'))
+  if (values.help || !transcriptPath) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const config: SpeakerConfig = values.config
+    ? await loadSpeakerConfig(values.config)
+    : (episode && getEpisodeSpeakers(episode)) ?? {
+        speakers: [],
+      }
+  const names = config.speakers.map(
+    (speaker) => speaker.name
+  )
+  const tracks = [
+    ...getConfiguredTracks(config),
+    ...(values.track ?? []).map(parseSpeakerTrack),
+  ]
+  const audioPath =
+    values.audio ??
+    (episode && getArtifactPath(episode, 'audio'))
+  const outputPath = values.write
+    ? transcriptPath
+    : values.output
+
+  let turns: SpeakerTurn[]
+  if (values.rttm) {
+    turns = nameSpeakers(
+      parseRTTM(await fs.readFile(values.rttm, 'utf-8')),
+      names
+    )
+  } else if (tracks.length > 0) {
+    consola.start(
+      `Comparing ${tracks.length} speaker tracks...`
+    )
+    turns = await diarizeTracks(tracks)
+  } else if (audioPath) {
+    const speakerCount = values.speakers
+      ? parseInt(values.speakers)
+      : names.length || DEFAULT_SPEAKER_COUNT
+    if (!(speakerCount >= 1)) {
+      consola.error('--speakers must be a positive number')
+      process.exit(1)
+    }
+    consola.start(
+      `Clustering ${speakerCount} voices in ${audioPath}...`
+    )
+    turns = nameSpeakers(
+      await diarizeByClustering(
+        audioPath,
+        parseVTT(
+          await fs.readFile(transcriptPath, 'utf-8')
+        ),
+        speakerCount
+      ),
+      names
+    )
+  } else {
+    consola.error(
+      'Pass speaker tracks (--track or --config), --audio or --rttm'
+    )
+    process.exit(1)
+  }
+
+  const cues = labelCues(
+    parseVTT(await fs.readFile(transcriptPath, 'utf-8')),
+    turns
+  )
+  const vtt = serializeVTT(cues)
+
+  if (outputPath) {
+    await fs.writeFile(outputPath, vtt, 'utf-8')
+    consola.success(
+      `Wrote ${outputPath} with ${
+        getSpeakerChanges(cues).length
+      } speaker changes`
+    )
+  } else {
+    process.stdout.write(vtt)
+  }
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs'
+import { mkdir } from 'fs/promises'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import { parseSpeakerTrack } from './diarization'
+import {
+  ArtifactName,
+  CONTENT_DIR,
+  DEFAULT_ARTIFACTS,
+  EPISODE_MANIFEST_FILE,
+  getArtifactPath,
+  getEpisodeTracks,
+  listEpisodes,
+  loadEpisode,
+  normalizeEpisodeId,
+  saveEpisodeManifest,
+} from './episode'
+
+const USAGE = `Usage: pnpm episode <command> [options]
+
+Commands:
+  init <id>    Create or update content/<id>/${EPISODE_MANIFEST_FILE}
+  show <id>    Print an episode's manifest and where its artifacts are
+  list         List all episodes
+
+Options for init:
+      --title <title>
+      --recorded-at <YYYY-MM-DD>
+      --host <name>           Repeatable
+      --guest <name>          Repeatable
+  -t, --track <name=path>     Recording of one speaker, relative to the
+                              episode directory (repeatable)
+      --<artifact> <path>     Use another file name for an artifact (video,
+                              audio, transcript, transcriptJson, chapters,
+                              showNotes, metadata)
+  -h, --help                  Show this help`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      title: { type: 'string' },
+      'recorded-at': { type: 'string' },
+      host: { type: 'string', multiple: true },
+      guest: { type: 'string', multiple: true },
+      track: { type: 'string', short: 't', multiple: true },
+      video: { type: 'string' },
+      audio: { type: 'string' },
+      transcript: { type: 'string' },
+      transcriptJson: { type: 'string' },
+      chapters: { type: 'string' },
+      showNotes: { type: 'string' },
+      metadata: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [command, id] = positionals
+  if (values.help || !command) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  if (command === 'list') {
+    for (const episodeId of await listEpisodes()) {
+      const episode = await loadEpisode(episodeId)
+      console.log(
+        `${episodeId}  ${
+          episode.manifest.title ?? ''
+        }`.trim()
+      )
+    }
+    return
+  }
+
+  if (!id) {
+    consola.error(
+      `${command} needs an episode ID, e.g. e57`
+    )
+    process.exit(1)
+  }
+
+  if (command === 'init') {
+    const dir = path.join(
+      CONTENT_DIR,
+      normalizeEpisodeId(id)
+    )
+    await mkdir(dir, { recursive: true })
+    const episode = await loadEpisode(id)
+    const { manifest } = episode
+
+    if (values.title) manifest.title = values.title
+    if (values['recorded-at']) {
+      manifest.recordedAt = values['recorded-at']
+    }
+    if (values.host) manifest.hosts = values.host
+    if (values.guest) manifest.guests = values.guest
+    for (const track of (values.track ?? []).map(
+      parseSpeakerTrack
+    )) {
+      manifest.tracks[track.speaker] = track.path
+    }
+    for (const name of Object.keys(
+      DEFAULT_ARTIFACTS
+    ) as ArtifactName[]) {
+      const artifact = values[name]
+      if (artifact) manifest.artifacts[name] = artifact
+    }
+
+    await saveEpisodeManifest(episode)
+    consola.success(
+      `Wrote ${path.join(dir, EPISODE_MANIFEST_FILE)}`
+    )
+    return
+  }
+
+  if (command === 'show') {
+    const episode = await loadEpisode(id)
+    console.log(JSON.stringify(episode.manifest, null, 2))
+    console.log('\nArtifacts:')
+    for (const name of Object.keys(
+      DEFAULT_ARTIFACTS
+    ) as ArtifactName[]) {
+      const artifactPath = getArtifactPath(episode, name)
+      console.log(
+        `  ${
+          existsSync(artifactPath) ? '✓' : '·'
+        } ${name.padEnd(14)} ${artifactPath}`
+      )
+    }
+    for (const track of getEpisodeTracks(episode)) {
+      console.log(
+        `  ${
+          existsSync(track.path) ? '✓' : '·'
+        } ${'track'.padEnd(14)} ${track.path} (${
+          track.speaker
+        })`
+      )
+    }
+    return
+  }
+
+  consola.error(`Unknown command "${command}"`)
+  console.log(USAGE)
+  process.exit(1)
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
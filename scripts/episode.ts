@@ -0,0 +1,242 @@
+import { existsSync } from 'fs'
+import { readdir, readFile, writeFile } from 'fs/promises'
+import * as path from 'path'
+import { z } from 'zod'
+import type {
+  SpeakerConfig,
+  SpeakerTrack,
+} from './diarization'
+import { naturalSort } from './fileUtils'
+import type { Glossary } from './glossary'
+
+export const CONTENT_DIR = 'content'
+export const EPISODE_MANIFEST_FILE = 'episode.json'
+
+/**
+ * Every file an episode can have, from the raw recording to the
+ * published show notes
+ */
+export type ArtifactName =
+  | 'video'
+  | 'audio'
+  | 'transcript'
+  | 'transcriptJson'
+  | 'chapters'
+  | 'showNotes'
+  | 'metadata'
+
+// Where artifacts live in the episode directory unless the manifest says
+// otherwise
+export const DEFAULT_ARTIFACTS: Record<
+  ArtifactName,
+  string
+> = {
+  video: 'video.mp4',
+  audio: 'audio.mp3',
+  transcript: 'transcript.vtt',
+  transcriptJson: 'transcript.json',
+  chapters: 'chapters.txt',
+  showNotes: 'show-notes.txt',
+  metadata: 'metadata.json',
+}
+
+const episodeManifestSchema = z.object({
+  number: z.number().int().positive(),
+  title: z.string().optional(),
+  recordedAt: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+    .optional(),
+  hosts: z.array(z.string().min(1)).default([]),
+  guests: z.array(z.string().min(1)).default([]),
+  // Paths relative to the episode directory
+  artifacts: z
+    .object({
+      video: z.string(),
+      audio: z.string(),
+      transcript: z.string(),
+      transcriptJson: z.string(),
+      chapters: z.string(),
+      showNotes: z.string(),
+      metadata: z.string(),
+    })
+    .partial()
+    .default({}),
+  // One recording per speaker, by name
+  tracks: z.record(z.string()).default({}),
+})
+
+export type EpisodeManifest = z.infer<
+  typeof episodeManifestSchema
+>
+
+export interface Episode {
+  id: string // e.g. e57
+  dir: string
+  manifest: EpisodeManifest
+}
+
+/**
+ * Accept "e57", "E57" or "57" for episode 57
+ */
+export function normalizeEpisodeId(id: string): string {
+  const match = id.trim().match(/^e?0*(\d+)$/i)
+  if (!match) {
+    throw new Error(
+      `Invalid episode ID "${id}", expected e.g. e57`
+    )
+  }
+  return `e${match[1]}`
+}
+
+/**
+ * Load an episode from content/<id>/. Episodes without an episode.json
+ * get a manifest with only the number, so every artifact is at its
+ * default path.
+ */
+export async function loadEpisode(
+  id: string,
+  contentDir: string = CONTENT_DIR
+): Promise<Episode> {
+  const episodeId = normalizeEpisodeId(id)
+  const dir = path.join(contentDir, episodeId)
+  if (!existsSync(dir)) {
+    throw new Error(`Episode directory not found: ${dir}`)
+  }
+
+  const manifestPath = path.join(dir, EPISODE_MANIFEST_FILE)
+  if (!existsSync(manifestPath)) {
+    return {
+      id: episodeId,
+      dir,
+      manifest: episodeManifestSchema.parse({
+        number: getEpisodeNumber(episodeId),
+      }),
+    }
+  }
+
+  const parsed = episodeManifestSchema.safeParse(
+    JSON.parse(await readFile(manifestPath, 'utf-8'))
+  )
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid episode manifest ${manifestPath}: ${parsed.error.message}`
+    )
+  }
+  if (parsed.data.number !== getEpisodeNumber(episodeId)) {
+    throw new Error(
+      `${manifestPath} is for episode ${parsed.data.number}, not ${episodeId}`
+    )
+  }
+
+  return { id: episodeId, dir, manifest: parsed.data }
+}
+
+export async function saveEpisodeManifest(
+  episode: Episode
+): Promise<void> {
+  await writeFile(
+    path.join(episode.dir, EPISODE_MANIFEST_FILE),
+    JSON.stringify(episode.manifest, null, 2) + '\n',
+    'utf-8'
+  )
+}
+
+/**
+ * IDs of all episode directories, in episode order
+ */
+export async function listEpisodes(
+  contentDir: string = CONTENT_DIR
+): Promise<string[]> {
+  const entries = await readdir(contentDir, {
+    withFileTypes: true,
+  })
+  return entries
+    .filter(
+      (entry) =>
+        entry.isDirectory() && /^e\d+$/.test(entry.name)
+    )
+    .map((entry) => entry.name)
+    .sort(naturalSort)
+}
+
+export function getArtifactPath(
+  episode: Episode,
+  name: ArtifactName
+): string {
+  return path.join(
+    episode.dir,
+    episode.manifest.artifacts[name] ??
+      DEFAULT_ARTIFACTS[name]
+  )
+}
+
+export function getEpisodeTracks(
+  episode: Episode
+): SpeakerTrack[] {
+  return Object.entries(episode.manifest.tracks).map(
+    ([speaker, trackPath]) => ({
+      speaker,
+      path: path.join(episode.dir, trackPath),
+    })
+  )
+}
+
+/**
+ * Hosts and guests as a speaker config, hosts first since they open the
+ * show. Undefined when the manifest names nobody.
+ */
+export function getEpisodeSpeakers(
+  episode: Episode
+): SpeakerConfig | undefined {
+  const names = [
+    ...episode.manifest.hosts,
+    ...episode.manifest.guests,
+  ]
+  if (names.length === 0) return undefined
+
+  const tracks = new Map(
+    getEpisodeTracks(episode).map((track) => [
+      track.speaker,
+      track.path,
+    ])
+  )
+  return {
+    speakers: names.map((name) => ({
+      name,
+      track: tracks.get(name),
+    })),
+  }
+}
+
+/**
+ * Add the hosts and guests of an episode to a glossary, so their names
+ * are spelled right
+ */
+export function withEpisodeNames(
+  glossary: Glossary,
+  episode: Episode
+): Glossary {
+  const known = new Set(
+    glossary.entries.map((entry) => entry.term)
+  )
+  return {
+    entries: [
+      ...glossary.entries,
+      ...[
+        ...episode.manifest.hosts,
+        ...episode.manifest.guests,
+      ]
+        .filter((name) => !known.has(name))
+        .map((name) => ({
+          term: name,
+          misheard: [],
+          kind: 'name' as const,
+        })),
+    ],
+  }
+}
+
+function getEpisodeNumber(episodeId: string): number {
+  return parseInt(episodeId.slice(1))
+}
@@ -0,0 +1,422 @@
+#!/usr/bin/env node
+import dotenv from 'dotenv'
+import * as path from 'path'
+import * as fs from 'fs/promises'
+import { existsSync } from 'fs'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import {
+  processTranscriptChapters,
+  Chapter,
+  ChapterStrategy,
+} from './transcript-chapters'
+import {
+  DEFAULT_SNAP_WINDOW,
+  SnapOptions,
+} from './chapter-snapping'
+import {
+  parseChaptersFile,
+  formatChapterTimestamp,
+  ChapterMarker,
+} from './chapters-file'
+import {
+  scoreChapters,
+  combineScores,
+  ChapterScore,
+} from './chapter-metrics'
+import {
+  CONTENT_DIR,
+  Episode,
+  getArtifactPath,
+  listEpisodes,
+  loadEpisode,
+} from './episode'
+import { isFileNotFoundError } from './fs-errors'
+
+dotenv.config()
+
+const DEFAULT_TOLERANCE = 30 // seconds
+
+const USAGE = `Usage: pnpm eval:chapters [options]
+
+Scores generated chapters against the published content/*/chapters.txt.
+
+Options:
+  -e, --episodes <ids>    Comma-separated episodes to evaluate (default: all in content/)
+  -f, --from <dir>        Load saved output (<dir>/<episode>.json or .txt) instead of running the pipeline
+  -s, --save <dir>        Save generated chapters to <dir>/<episode>.json for later --from runs
+  -t, --tolerance <sec>   Seconds a boundary may be off and still count (default 30)
+  -m, --max-chapters <n>  Chapters to ask for (default: as many as the reference has)
+      --strategy <name>   Detection strategy (full, windowed, structured, default full)
+      --snap              Snap the starts to nearby sentence starts, speaker turns and silences in the episode's audio
+      --snap-window <s>   Seconds to look around each start (default ${DEFAULT_SNAP_WINDOW})
+      --json              Print the full report as JSON
+  -h, --help              Show this help`
+
+interface EvalOptions {
+  episodes?: string[]
+  from?: string
+  save?: string
+  tolerance: number
+  maxChapters?: number
+  strategy: ChapterStrategy
+  snap?: SnapOptions
+  json: boolean
+}
+
+interface EpisodeResult {
+  episode: string
+  score: ChapterScore
+}
+
+async function main() {
+  const options = parseEvalOptions()
+  const episodes =
+    options.episodes ?? (await findEvaluableEpisodes())
+
+  if (episodes.length === 0) {
+    consola.error(
+      `No episodes with transcript.vtt and chapters.txt found in ${CONTENT_DIR}/`
+    )
+    process.exit(1)
+  }
+
+  const results: EpisodeResult[] = []
+
+  for (const id of episodes) {
+    const episode = await loadEpisode(id)
+    const reference = parseChaptersFile(
+      await fs.readFile(
+        getArtifactPath(episode, 'chapters'),
+        'utf-8'
+      )
+    )
+
+    const predicted = options.from
+      ? await loadSavedChapters(options.from, episode.id)
+      : await generateChapters(
+          episode,
+          options.maxChapters ?? reference.length,
+          options.strategy,
+          options.snap,
+          options.save
+        )
+
+    results.push({
+      episode: episode.id,
+      score: scoreChapters(
+        reference,
+        predicted,
+        options.tolerance
+      ),
+    })
+  }
+
+  const overall = combineScores(
+    results.map((result) => result.score)
+  )
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        { tolerance: options.tolerance, results, overall },
+        null,
+        2
+      )
+    )
+    return
+  }
+
+  printReport(results, overall, options.tolerance)
+}
+
+/**
+ * Parse command line flags, exiting on invalid input
+ */
+function parseEvalOptions(): EvalOptions {
+  const { values } = parseFlags()
+
+  if (values.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+
+  const tolerance =
+    values.tolerance !== undefined
+      ? parseFloat(values.tolerance)
+      : DEFAULT_TOLERANCE
+  if (isNaN(tolerance) || tolerance < 0) {
+    consola.error('Tolerance must be a positive number')
+    process.exit(1)
+  }
+
+  let maxChapters: number | undefined
+  if (values['max-chapters'] !== undefined) {
+    maxChapters = parseInt(values['max-chapters'])
+    if (isNaN(maxChapters) || maxChapters < 1) {
+      consola.error('Max chapters must be at least 1')
+      process.exit(1)
+    }
+  }
+
+  const strategy = values.strategy ?? 'full'
+  if (
+    strategy !== 'full' &&
+    strategy !== 'windowed' &&
+    strategy !== 'structured'
+  ) {
+    consola.error(
+      'Strategy must be full, windowed or structured'
+    )
+    process.exit(1)
+  }
+
+  const snapWindow =
+    values['snap-window'] !== undefined
+      ? parseFloat(values['snap-window'])
+      : DEFAULT_SNAP_WINDOW
+  if (!(snapWindow > 0)) {
+    consola.error('--snap-window must be a positive number')
+    process.exit(1)
+  }
+
+  return {
+    episodes: values.episodes
+      ?.split(',')
+      .map((episode) => episode.trim())
+      .filter(Boolean),
+    from: values.from,
+    save: values.save,
+    tolerance,
+    maxChapters,
+    strategy,
+    snap: values.snap ? { window: snapWindow } : undefined,
+    json: values.json ?? false,
+  }
+}
+
+/**
+ * Read raw flags from process.argv
+ */
+function parseFlags() {
+  try {
+    return parseArgs({
+      options: {
+        episodes: { type: 'string', short: 'e' },
+        from: { type: 'string', short: 'f' },
+        save: { type: 'string', short: 's' },
+        tolerance: { type: 'string', short: 't' },
+        'max-chapters': { type: 'string', short: 'm' },
+        strategy: { type: 'string' },
+        snap: { type: 'boolean' },
+        'snap-window': { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    })
+  } catch (error: unknown) {
+    consola.error(
+      error instanceof Error ? error.message : String(error)
+    )
+    console.log(USAGE)
+    process.exit(1)
+  }
+}
+
+/**
+ * Episodes that have both a transcript and published chapters
+ */
+async function findEvaluableEpisodes(): Promise<string[]> {
+  const episodes: string[] = []
+  for (const id of await listEpisodes()) {
+    const episode = await loadEpisode(id)
+    const hasFiles = await Promise.all(
+      (['transcript', 'chapters'] as const).map((name) =>
+        fs
+          .access(getArtifactPath(episode, name))
+          .then(() => true)
+          .catch(() => false)
+      )
+    )
+    if (hasFiles.every(Boolean)) {
+      episodes.push(id)
+    }
+  }
+
+  return episodes
+}
+
+/**
+ * Run the chapter pipeline on an episode transcript
+ */
+async function generateChapters(
+  episode: Episode,
+  maxChapters: number,
+  strategy: ChapterStrategy,
+  snap?: SnapOptions,
+  saveDir?: string
+): Promise<ChapterMarker[]> {
+  const transcriptPath = getArtifactPath(
+    episode,
+    'transcript'
+  )
+  const transcript = await fs.readFile(
+    transcriptPath,
+    'utf-8'
+  )
+
+  const audioPath = getArtifactPath(episode, 'audio')
+
+  consola.start(`Generating chapters for ${episode.id}`)
+  const chapters = await processTranscriptChapters(
+    transcript,
+    {
+      transcriptPath,
+      maxChapters,
+      strategy,
+      snap: snap && {
+        ...snap,
+        audioPath: existsSync(audioPath)
+          ? audioPath
+          : undefined,
+      },
+    }
+  )
+
+  if (saveDir) {
+    await fs.mkdir(saveDir, { recursive: true })
+    const outputPath = path.join(
+      saveDir,
+      `${episode.id}.json`
+    )
+    await fs.writeFile(
+      outputPath,
+      JSON.stringify(chapters, null, 2),
+      'utf-8'
+    )
+    consola.info(`Saved chapters to ${outputPath}`)
+  }
+
+  return toMarkers(chapters)
+}
+
+/**
+ * Load previously generated chapters, either the CLI's JSON output or
+ * a chapters.txt file
+ */
+async function loadSavedChapters(
+  dir: string,
+  episode: string
+): Promise<ChapterMarker[]> {
+  const jsonPath = path.join(dir, `${episode}.json`)
+  const txtPath = path.join(dir, `${episode}.txt`)
+
+  try {
+    const chapters = JSON.parse(
+      await fs.readFile(jsonPath, 'utf-8')
+    ) as Chapter[]
+    return toMarkers(chapters)
+  } catch (error: unknown) {
+    if (!isFileNotFoundError(error)) throw error
+  }
+
+  return parseChaptersFile(
+    await fs.readFile(txtPath, 'utf-8')
+  )
+}
+
+function toMarkers(chapters: Chapter[]): ChapterMarker[] {
+  return chapters
+    .filter((chapter) => chapter.startTime !== undefined)
+    .map((chapter) => ({
+      title: chapter.title,
+      startTime: chapter.startTime!,
+    }))
+}
+
+/**
+ * Print a per-episode table followed by the pooled totals
+ */
+function printReport(
+  results: EpisodeResult[],
+  overall: ChapterScore,
+  tolerance: number
+): void {
+  const header = [
+    'Episode',
+    'Ref',
+    'Pred',
+    'Match',
+    'Precision',
+    'Recall',
+    'F1',
+    'MAE (s)',
+    'Title sim',
+  ]
+  const rows = [
+    ...results.map((result) =>
+      formatRow(result.episode, result.score)
+    ),
+    formatRow('overall', overall),
+  ]
+
+  const widths = header.map((title, column) =>
+    Math.max(
+      title.length,
+      ...rows.map((row) => row[column].length)
+    )
+  )
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+
+  console.log(
+    `\nBoundary tolerance: ±${tolerance}s\n\n${formatLine(
+      header
+    )}`
+  )
+  console.log(
+    widths.map((width) => '-'.repeat(width)).join('  ')
+  )
+  rows.forEach((row) => console.log(formatLine(row)))
+
+  for (const result of results) {
+    console.log(`\n${result.episode} matched boundaries:`)
+    result.score.matches.forEach((match) => {
+      console.log(
+        `  ${formatChapterTimestamp(
+          match.reference.startTime
+        )} "${
+          match.reference.title
+        }" ← ${formatChapterTimestamp(
+          match.predicted.startTime
+        )} "${match.predicted.title}"`
+      )
+    })
+  }
+}
+
+function formatRow(
+  label: string,
+  score: ChapterScore
+): string[] {
+  return [
+    label,
+    String(score.referenceCount),
+    String(score.predictedCount),
+    String(score.matches.length),
+    score.precision.toFixed(2),
+    score.recall.toFixed(2),
+    score.f1.toFixed(2),
+    score.meanAbsoluteError?.toFixed(1) ?? '-',
+    score.meanTitleSimilarity?.toFixed(2) ?? '-',
+  ]
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
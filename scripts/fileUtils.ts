@@ -1,5 +1,10 @@
 import * as fs from 'fs'
 import * as path from 'path'
+import {
+  computeCacheKey,
+  openOutputCache,
+  OutputCache,
+} from './cache'
 
 // Core processing interface
 export interface ContentProcessor<T> {
@@ -58,25 +63,91 @@ export function naturalSort(a: string, b: string): number {
   return aSegments.length - bSegments.length
 }
 
+export interface ProcessFilesOptions<T> {
+  outputDir: string
+  processor: ContentProcessor<T>
+  fileFilter: string[] | ((filename: string) => boolean)
+  readAsBuffer?: boolean
+  outputWriter?: (
+    result: T,
+    outputPath: string
+  ) => Promise<void>
+  recursive?: boolean
+  processExisting?: boolean
+  outputExtension?: string
+  // Where to write the output of an input, e.g. an episode artifact,
+  // instead of its mirrored path inside outputDir
+  outputPath?: (inputPath: string) => string
+  encoding?: BufferEncoding
+  skipContent?: boolean
+  concurrency?: number // files processed at the same time
+  retries?: number // extra attempts after a 429 or 5xx error
+  retryDelay?: number // in ms, doubled after every attempt
+  onProgress?: (progress: ProcessProgress) => void
+  // Parameters that shape the output (prompt, model, options). When set,
+  // existing outputs are only reused while these and the input file
+  // are unchanged, tracked in a manifest in the output directory.
+  cacheKey?: (inputPath: string) => Record<string, unknown>
+}
+
+export interface ProcessProgress {
+  inputPath: string
+  status: 'succeeded' | 'skipped' | 'failed' | 'retrying'
+  completed: number // files finished so far, including this one
+  total: number
+  attempt?: number // for retries, the attempt that just failed
+  error?: unknown
+}
+
+export interface CostEstimate {
+  audioMinutes?: number
+  tokens?: number
+  usd?: number
+}
+
+export interface PlannedFile {
+  inputPath: string
+  outputPath: string
+  action: 'process' | 'reprocess' | 'skip'
+  reason: string
+  size: number // input size in bytes
+  estimate?: CostEstimate // only for files that will be processed
+}
+
+export interface ProcessReport<T> {
+  succeeded: {
+    inputPath: string
+    outputPath: string
+    result: T
+    attempts: number
+  }[]
+  skipped: { inputPath: string; outputPath: string }[]
+  failed: {
+    inputPath: string
+    outputPath: string
+    error: unknown
+    attempts: number
+  }[]
+  duration: number // in ms
+}
+
 // Main processing function
 export async function processFiles<T>(
   input: string | string[],
-  options: {
-    outputDir: string
-    processor: ContentProcessor<T>
-    fileFilter: string[] | ((filename: string) => boolean)
-    readAsBuffer?: boolean
-    outputWriter?: (
-      result: T,
-      outputPath: string
-    ) => Promise<void>
-    recursive?: boolean
-    processExisting?: boolean
-    outputExtension?: string
-    encoding?: BufferEncoding
-    skipContent?: boolean
-  }
+  options: ProcessFilesOptions<T>
 ): Promise<T[]> {
+  const report = await processFilesWithReport(
+    input,
+    options
+  )
+  return report.succeeded.map((entry) => entry.result)
+}
+
+// Same as processFiles, but returns what happened to every file
+export async function processFilesWithReport<T>(
+  input: string | string[],
+  options: ProcessFilesOptions<T>
+): Promise<ProcessReport<T>> {
   const {
     outputDir,
     processor,
@@ -86,12 +157,22 @@ export async function processFiles<T>(
     recursive = false,
     processExisting = false,
     outputExtension,
+    outputPath: resolveOutputPath,
     encoding = 'utf-8',
     skipContent = false,
+    concurrency = 1,
+    retries = 0,
+    retryDelay = 1000,
+    onProgress,
+    cacheKey,
   } = options
+  const startedAt = Date.now()
 
   // Ensure output directory exists
   await ensureDirectoryExists(outputDir)
+  const cache = cacheKey
+    ? await openOutputCache(outputDir)
+    : undefined
 
   // Get all matching files
   const inputPaths = Array.isArray(input) ? input : [input]
@@ -100,36 +181,72 @@ export async function processFiles<T>(
     recursive,
   })
 
-  const results: T[] = []
-
-  // Process each file
-  for (const inputPath of files) {
-    // Get the relative path from the input directory to the file
-    const relativePath = path.relative(
-      inputPaths[0],
-      inputPath
-    )
-    const outputPath = path.join(
-      outputDir,
-      path.dirname(relativePath),
-      path.basename(
-        relativePath,
-        path.extname(relativePath)
-      ) + (outputExtension || '')
-    )
-
-    // Skip if output exists and processExisting is false
-    if (
-      !processExisting &&
-      (await fileExists(outputPath))
-    ) {
-      console.log(
-        `Skipping: ${inputPath} - output already exists at ${outputPath}`
-      )
-      continue
-    }
+  // Indexed by file so the report keeps the natural sort order
+  const succeeded: (
+    | ProcessReport<T>['succeeded'][number]
+    | undefined
+  )[] = []
+  const skipped: (
+    | ProcessReport<T>['skipped'][number]
+    | undefined
+  )[] = []
+  const failed: (
+    | ProcessReport<T>['failed'][number]
+    | undefined
+  )[] = []
+  let completed = 0
+
+  const processFile = async (index: number) => {
+    const inputPath = files[index]
+
+    const outputPath = resolveOutputPath
+      ? resolveOutputPath(inputPath)
+      : getOutputPath(
+          inputPaths,
+          inputPath,
+          outputDir,
+          outputExtension
+        )
 
+    let attempts = 0
     try {
+      const key = cacheKey
+        ? await computeCacheKey(
+            inputPath,
+            cacheKey(inputPath)
+          )
+        : undefined
+
+      // Skip if output exists and processExisting is false
+      const check = await checkExistingOutput(outputPath, {
+        processExisting,
+        cache,
+        key,
+      })
+      if (check.action === 'reprocess' && check.stale) {
+        console.log(
+          `Reprocessing: ${inputPath} - ${check.reason}`
+        )
+      }
+      if (check.action === 'skip') {
+        // An output that predates the cache is adopted as is rather
+        // than paid for again
+        if (check.untracked && cache && key) {
+          await cache.record(outputPath, inputPath, key)
+        }
+        console.log(
+          `Skipping: ${inputPath} - output already exists at ${outputPath}`
+        )
+        skipped[index] = { inputPath, outputPath }
+        onProgress?.({
+          inputPath,
+          status: 'skipped',
+          completed: ++completed,
+          total: files.length,
+        })
+        return
+      }
+
       // Ensure output directory exists
       await ensureDirectoryExists(path.dirname(outputPath))
 
@@ -142,13 +259,37 @@ export async function processFiles<T>(
             encoding
           )
 
-      // Process content
-      const result = await processor.process(
-        content || Buffer.alloc(0),
+      // Process content, retrying rate limits and server errors
+      const result = await retryWithBackoff(
+        () => {
+          attempts++
+          return processor.process(
+            content || Buffer.alloc(0),
+            {
+              filename: path.basename(inputPath),
+              inputPath,
+              outputPath,
+            }
+          )
+        },
         {
-          filename: path.basename(inputPath),
-          inputPath,
-          outputPath,
+          retries,
+          retryDelay,
+          onRetry: (error, attempt, delay) => {
+            console.warn(
+              `Retrying ${inputPath} in ${delay}ms (attempt ${attempt} failed: ${getErrorMessage(
+                error
+              )})`
+            )
+            onProgress?.({
+              inputPath,
+              status: 'retrying',
+              completed,
+              total: files.length,
+              attempt,
+              error,
+            })
+          },
         }
       )
 
@@ -161,16 +302,430 @@ export async function processFiles<T>(
         }
       }
 
-      results.push(result)
+      if (cache && key) {
+        await cache.record(outputPath, inputPath, key)
+      }
+
+      succeeded[index] = {
+        inputPath,
+        outputPath,
+        result,
+        attempts,
+      }
       console.log(
         `Successfully processed: ${inputPath} -> ${outputPath}`
       )
+      onProgress?.({
+        inputPath,
+        status: 'succeeded',
+        completed: ++completed,
+        total: files.length,
+      })
     } catch (error) {
       console.error(`Error processing ${inputPath}:`, error)
+      failed[index] = {
+        inputPath,
+        outputPath,
+        error,
+        attempts,
+      }
+      onProgress?.({
+        inputPath,
+        status: 'failed',
+        completed: ++completed,
+        total: files.length,
+        error,
+      })
+    }
+  }
+
+  // Each worker takes the next unclaimed file until none are left
+  let nextIndex = 0
+  const worker = async () => {
+    while (nextIndex < files.length) {
+      await processFile(nextIndex++)
+    }
+  }
+  await Promise.all(
+    Array.from(
+      {
+        length: Math.max(
+          1,
+          Math.min(concurrency, files.length)
+        ),
+      },
+      worker
+    )
+  )
+
+  return {
+    succeeded: succeeded.filter(isDefined),
+    skipped: skipped.filter(isDefined),
+    failed: failed.filter(isDefined),
+    duration: Date.now() - startedAt,
+  }
+}
+
+// Work out what processFiles would do with every file, reading inputs,
+// outputs and the cache manifest but never writing anything
+export async function planFiles(
+  input: string | string[],
+  options: Pick<
+    ProcessFilesOptions<unknown>,
+    | 'outputDir'
+    | 'fileFilter'
+    | 'recursive'
+    | 'processExisting'
+    | 'outputExtension'
+    | 'outputPath'
+    | 'cacheKey'
+  > & {
+    estimate?: (inputPath: string) => Promise<CostEstimate>
+  }
+): Promise<PlannedFile[]> {
+  const {
+    outputDir,
+    fileFilter,
+    recursive = false,
+    processExisting = false,
+    outputExtension,
+    outputPath: resolveOutputPath,
+    cacheKey,
+    estimate,
+  } = options
+
+  const cache = cacheKey
+    ? await openOutputCache(outputDir)
+    : undefined
+  const inputPaths = Array.isArray(input) ? input : [input]
+  const files = await findMatchingFiles(inputPaths, {
+    fileFilter,
+    recursive,
+  })
+
+  const plan: PlannedFile[] = []
+  for (const inputPath of files) {
+    const outputPath = resolveOutputPath
+      ? resolveOutputPath(inputPath)
+      : getOutputPath(
+          inputPaths,
+          inputPath,
+          outputDir,
+          outputExtension
+        )
+    const key = cacheKey
+      ? await computeCacheKey(
+          inputPath,
+          cacheKey(inputPath)
+        )
+      : undefined
+    const { action, reason } = await checkExistingOutput(
+      outputPath,
+      { processExisting, cache, key }
+    )
+
+    plan.push({
+      inputPath,
+      outputPath,
+      action,
+      reason,
+      size: (await fs.promises.stat(inputPath)).size,
+      estimate:
+        estimate && action !== 'skip'
+          ? await estimate(inputPath).catch((error) => {
+              console.warn(
+                `Could not estimate ${inputPath}: ${getErrorMessage(
+                  error
+                )}`
+              )
+              return undefined
+            })
+          : undefined,
+    })
+  }
+
+  return plan
+}
+
+// A table of planned actions with estimated totals, for --dry-run
+export function formatPlan(plan: PlannedFile[]): string {
+  const rows = plan.map((file) => [
+    file.action,
+    file.inputPath,
+    file.outputPath,
+    file.reason,
+    formatEstimate(file.estimate),
+  ])
+  const header = [
+    'Action',
+    'Input',
+    'Output',
+    'Reason',
+    'Estimate',
+  ]
+  const widths = header.map((title, column) =>
+    Math.max(
+      title.length,
+      ...rows.map((row) => row[column].length)
+    )
+  )
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd()
+
+  const toRun = plan.filter(
+    (file) => file.action !== 'skip'
+  )
+  const total = sumEstimates(
+    toRun.map((file) => file.estimate).filter(isDefined)
+  )
+
+  return [
+    formatLine(header),
+    widths.map((width) => '-'.repeat(width)).join('  '),
+    ...rows.map(formatLine),
+    '',
+    `${toRun.length} to process, ${
+      plan.length - toRun.length
+    } to skip${
+      formatEstimate(total)
+        ? `, estimated ${formatEstimate(total)}`
+        : ''
+    }`,
+  ].join('\n')
+}
+
+// Add up estimates, keeping only the units every part has
+export function sumEstimates(
+  estimates: CostEstimate[]
+): CostEstimate {
+  const total: CostEstimate = {}
+  for (const unit of [
+    'audioMinutes',
+    'tokens',
+    'usd',
+  ] as const) {
+    if (
+      estimates.length > 0 &&
+      estimates.every(
+        (estimate) => estimate[unit] !== undefined
+      )
+    ) {
+      total[unit] = estimates.reduce(
+        (sum, estimate) => sum + estimate[unit]!,
+        0
+      )
+    }
+  }
+  return total
+}
+
+function formatEstimate(estimate?: CostEstimate): string {
+  if (!estimate) return ''
+
+  const parts: string[] = []
+  if (estimate.audioMinutes !== undefined) {
+    parts.push(`${estimate.audioMinutes.toFixed(1)} min`)
+  }
+  if (estimate.tokens !== undefined) {
+    parts.push(`~${Math.round(estimate.tokens)} tokens`)
+  }
+  if (estimate.usd !== undefined) {
+    parts.push(`$${estimate.usd.toFixed(2)}`)
+  }
+  return parts.join(', ')
+}
+
+// Shared by processing and planning: whether an existing output can be
+// kept, and why
+async function checkExistingOutput(
+  outputPath: string,
+  options: {
+    processExisting: boolean
+    cache?: OutputCache
+    key?: string
+  }
+): Promise<{
+  action: PlannedFile['action']
+  reason: string
+  stale?: boolean // the cache key changed
+  untracked?: boolean // exists but has no manifest entry
+}> {
+  const { processExisting, cache, key } = options
+
+  if (!(await fileExists(outputPath))) {
+    return { action: 'process', reason: 'no output yet' }
+  }
+  if (processExisting) {
+    return {
+      action: 'reprocess',
+      reason: 'processExisting is set',
+    }
+  }
+  if (!cache || !key) {
+    return { action: 'skip', reason: 'output exists' }
+  }
+
+  const entry = cache.get(outputPath)
+  if (!entry) {
+    return {
+      action: 'skip',
+      reason: 'output exists, not in cache manifest',
+      untracked: true,
+    }
+  }
+  if (entry.key !== key) {
+    return {
+      action: 'reprocess',
+      reason: `input or parameters changed since ${entry.updatedAt}`,
+      stale: true,
+    }
+  }
+  return { action: 'skip', reason: 'up to date' }
+}
+
+// Output path of an input file: same relative location inside the output
+// directory, with the extension replaced by outputExtension
+function getOutputPath(
+  inputPaths: string[],
+  inputPath: string,
+  outputDir: string,
+  outputExtension?: string
+): string {
+  // Get the relative path from the input directory to the file
+  const relativePath = getRelativeInputPath(
+    inputPaths,
+    inputPath
+  )
+  return path.join(
+    outputDir,
+    path.dirname(relativePath),
+    path.basename(
+      relativePath,
+      path.extname(relativePath)
+    ) + (outputExtension || '')
+  )
+}
+
+// One line per failed file plus the totals, for the end of a run
+export function formatProcessReport<T>(
+  report: ProcessReport<T>
+): string {
+  const lines = [
+    `Processed ${
+      report.succeeded.length +
+      report.skipped.length +
+      report.failed.length
+    } files in ${(report.duration / 1000).toFixed(1)}s: ${
+      report.succeeded.length
+    } succeeded, ${report.skipped.length} skipped, ${
+      report.failed.length
+    } failed`,
+  ]
+
+  for (const entry of report.failed) {
+    lines.push(
+      `  ✗ ${entry.inputPath} (${entry.attempts} attempt${
+        entry.attempts === 1 ? '' : 's'
+      }): ${getErrorMessage(entry.error)}`
+    )
+  }
+
+  return lines.join('\n')
+}
+
+// Run fn, retrying with exponential backoff while the error is retryable
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: {
+    retries: number
+    retryDelay: number // in ms, doubled after every attempt
+    onRetry?: (
+      error: unknown,
+      attempt: number,
+      delay: number
+    ) => void
+  }
+): Promise<T> {
+  const { retries, retryDelay, onRetry } = options
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt > retries || !isRetryableError(error)) {
+        throw error
+      }
+
+      const delay = retryDelay * 2 ** (attempt - 1)
+      onRetry?.(error, attempt, delay)
+      await new Promise((resolve) =>
+        setTimeout(resolve, delay)
+      )
+    }
+  }
+}
+
+// Rate limits (429) and server errors (5xx) are worth another try
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error)
+  return (
+    status !== undefined &&
+    (status === 429 || status >= 500)
+  )
+}
+
+// HTTP status of an error from ofetch (status), the AI SDK
+// (statusCode, or lastError once its own retries ran out) or a
+// wrapping error's cause
+function getErrorStatus(
+  error: unknown
+): number | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined
+  }
+
+  const { status, statusCode, lastError, cause } =
+    error as Record<string, unknown>
+  if (typeof status === 'number') return status
+  if (typeof statusCode === 'number') return statusCode
+
+  return getErrorStatus(lastError) ?? getErrorStatus(cause)
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error
+    ? error.message
+    : String(error)
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined
+}
+
+// Path of a file relative to the input it was found in, so files from
+// every input end up inside the output directory. A file passed
+// directly as an input keeps just its name.
+function getRelativeInputPath(
+  inputPaths: string[],
+  filePath: string
+): string {
+  for (const inputPath of inputPaths) {
+    const relativePath = path.relative(inputPath, filePath)
+    if (relativePath === '') {
+      return path.basename(filePath)
+    }
+    if (
+      !relativePath.startsWith('..') &&
+      !path.isAbsolute(relativePath)
+    ) {
+      return relativePath
     }
   }
 
-  return results
+  return path.basename(filePath)
 }
 
 // File search utility
@@ -0,0 +1,12 @@
+// Kept apart from fileUtils so cache.ts, which fileUtils imports, can
+// use it too
+
+// A read of a file that doesn't exist (yet)
+export function isFileNotFoundError(
+  error: unknown
+): error is NodeJS.ErrnoException {
+  return (
+    error instanceof Error &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  )
+}
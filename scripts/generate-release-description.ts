@@ -7,7 +7,6 @@ import {
   isCancel,
 } from '@clack/prompts'
 import { generateText } from 'ai'
-import { openai } from '@ai-sdk/openai'
 import path from 'path'
 import dotenv from 'dotenv'
 import {
@@ -16,7 +15,8 @@ import {
   safeWriteFile,
   ensureDirectoryExists,
   naturalSort,
-} from '../fileUtils'
+} from './fileUtils'
+import { getModel } from './models'
 
 dotenv.config()
 
@@ -72,7 +72,7 @@ async function generateReleaseDescription(
     )
 
     const { text } = await generateText({
-      model: openai('gpt-4.1'),
+      model: getModel('release-notes'),
       prompt,
       temperature: 0.7,
     })
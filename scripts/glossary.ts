@@ -0,0 +1,325 @@
+import { existsSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { z } from 'zod'
+import { formatChapterTimestamp } from './chapters-file'
+import type {
+  TranscriptionResponse,
+  TranscriptionWord,
+} from './transcript-merge'
+
+export interface GlossaryEntry {
+  term: string // how it should be written
+  misheard: string[] // what transcription makes of it instead
+  kind: 'term' | 'name'
+}
+
+export interface Glossary {
+  entries: GlossaryEntry[]
+}
+
+export interface Substitution {
+  start: number // in seconds, of the cue it was made in
+  from: string
+  to: string
+}
+
+const entrySchema = z.union([
+  z.string().min(1),
+  z.object({
+    term: z.string().min(1),
+    misheard: z.array(z.string().min(1)).default([]),
+  }),
+])
+
+const glossarySchema = z.object({
+  names: z.array(entrySchema).default([]),
+  terms: z.array(entrySchema).default([]),
+})
+
+export const DEFAULT_GLOSSARY_PATH = 'glossary.json'
+
+// Whisper only looks at the last 224 tokens of the prompt
+const MAX_PROMPT_LENGTH = 800 // in characters
+
+/**
+ * Read and merge glossary files. Without any, glossary.json is used if
+ * it exists.
+ */
+export async function loadGlossary(
+  paths: string[] = []
+): Promise<Glossary> {
+  const glossaryPaths =
+    paths.length > 0
+      ? paths
+      : existsSync(DEFAULT_GLOSSARY_PATH)
+      ? [DEFAULT_GLOSSARY_PATH]
+      : []
+
+  const entries: GlossaryEntry[] = []
+  for (const glossaryPath of glossaryPaths) {
+    const parsed = glossarySchema.safeParse(
+      JSON.parse(await readFile(glossaryPath, 'utf-8'))
+    )
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid glossary ${glossaryPath}: ${parsed.error.message}`
+      )
+    }
+    entries.push(
+      ...parsed.data.names.map((entry) =>
+        toEntry(entry, 'name')
+      ),
+      ...parsed.data.terms.map((entry) =>
+        toEntry(entry, 'term')
+      )
+    )
+  }
+
+  return { entries }
+}
+
+/**
+ * Add the glossary to a transcription prompt so the model knows how
+ * names and terms are spelled. Names come first, then terms that are
+ * known to be misheard, and the list stops at the prompt length limit.
+ */
+export function buildGlossaryPrompt(
+  prompt: string,
+  glossary: Glossary
+): string {
+  const ordered = [
+    ...glossary.entries.filter((e) => e.kind === 'name'),
+    ...glossary.entries.filter(
+      (e) => e.kind === 'term' && e.misheard.length > 0
+    ),
+    ...glossary.entries.filter(
+      (e) => e.kind === 'term' && e.misheard.length === 0
+    ),
+  ]
+
+  let result = prompt
+  let separator = ' Names and terms: '
+  for (const entry of ordered) {
+    const next = `${result}${separator}${entry.term}`
+    if (next.length + 1 > MAX_PROMPT_LENGTH) break
+    result = next
+    separator = ', '
+  }
+
+  return result === prompt ? prompt : `${result}.`
+}
+
+/**
+ * Replace every misheard form of a glossary entry in a text. Matching
+ * ignores case and extra whitespace but only takes whole words, so
+ * "Nux" is fixed without touching "Linux".
+ */
+export function correctText(
+  text: string,
+  glossary: Glossary
+): {
+  text: string
+  substitutions: Omit<Substitution, 'start'>[]
+} {
+  const substitutions: Omit<Substitution, 'start'>[] = []
+  let corrected = text
+
+  for (const { term, pattern } of getPatterns(glossary)) {
+    corrected = corrected.replace(pattern, (match) => {
+      if (match !== term) {
+        substitutions.push({ from: match, to: term })
+      }
+      return term
+    })
+  }
+
+  return { text: corrected, substitutions }
+}
+
+/**
+ * Run correctText over every cue and collect what was changed where
+ */
+export function correctCues<
+  T extends { start: number; text: string }
+>(
+  cues: T[],
+  glossary: Glossary
+): { cues: T[]; substitutions: Substitution[] } {
+  const substitutions: Substitution[] = []
+
+  const corrected = cues.map((cue) => {
+    const result = correctText(cue.text, glossary)
+    substitutions.push(
+      ...result.substitutions.map((substitution) => ({
+        start: cue.start,
+        ...substitution,
+      }))
+    )
+    return { ...cue, text: result.text }
+  })
+
+  return { cues: corrected, substitutions }
+}
+
+/**
+ * Correct the segments and words of a transcription. Substitutions are
+ * reported per segment, since the words hold the same text again.
+ */
+export function correctTranscription(
+  transcription: TranscriptionResponse,
+  glossary: Glossary
+): {
+  transcription: TranscriptionResponse
+  substitutions: Substitution[]
+} {
+  const { cues: segments, substitutions } = correctCues(
+    transcription.segments,
+    glossary
+  )
+
+  return {
+    transcription: {
+      text:
+        segments.length > 0
+          ? segments.map((s) => s.text.trim()).join(' ')
+          : correctText(transcription.text, glossary).text,
+      words: correctWords(transcription.words, glossary),
+      segments,
+    },
+    substitutions,
+  }
+}
+
+/**
+ * Run the glossary over timed words. A misheard form of several words,
+ * like "Vue use", can only match adjacent words, which are merged into
+ * one word spanning their timings.
+ */
+function correctWords(
+  words: TranscriptionWord[],
+  glossary: Glossary
+): TranscriptionWord[] {
+  let result = words
+
+  for (const { term, pattern, length } of getPatterns(
+    glossary
+  )) {
+    const corrected: TranscriptionWord[] = []
+    let i = 0
+    while (i < result.length) {
+      const merged = replaceAcross(
+        result.slice(i, i + length),
+        pattern,
+        term
+      )
+      corrected.push(merged ?? result[i])
+      i += merged ? length : 1
+    }
+    result = corrected
+  }
+
+  return result
+}
+
+// Replace a match that starts in the first word and ends in the last,
+// undefined when there is none
+function replaceAcross(
+  words: TranscriptionWord[],
+  pattern: RegExp,
+  term: string
+): TranscriptionWord | undefined {
+  const text = words.map((word) => word.word).join(' ')
+  const first = words[0].word
+  const last = words[words.length - 1].word
+
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index + match[0].length
+    if (
+      match.index < first.length &&
+      end > text.length - last.length
+    ) {
+      return {
+        word: `${text.slice(
+          0,
+          match.index
+        )}${term}${text.slice(end)}`,
+        start: words[0].start,
+        end: words[words.length - 1].end,
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * One line per substitution, followed by how often each one was made
+ */
+export function formatCorrectionReport(
+  substitutions: Substitution[]
+): string {
+  if (substitutions.length === 0) {
+    return 'No glossary corrections'
+  }
+
+  const counts = new Map<string, number>()
+  for (const { from, to } of substitutions) {
+    const key = `"${from}" → "${to}"`
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+
+  return [
+    `${substitutions.length} glossary correction${
+      substitutions.length === 1 ? '' : 's'
+    }:`,
+    ...substitutions.map(
+      ({ start, from, to }) =>
+        `  ${formatChapterTimestamp(
+          start
+        )}  "${from}" → "${to}"`
+    ),
+    '',
+    'By term:',
+    ...[...counts.entries()].map(
+      ([key, count]) => `  ${key} ×${count}`
+    ),
+  ].join('\n')
+}
+
+function toEntry(
+  entry: z.infer<typeof entrySchema>,
+  kind: GlossaryEntry['kind']
+): GlossaryEntry {
+  return typeof entry === 'string'
+    ? { term: entry, misheard: [], kind }
+    : { ...entry, kind }
+}
+
+// Longest forms first, so "Vue use" is fixed before a rule for "Vue"
+// could split it
+function getPatterns(glossary: Glossary) {
+  return glossary.entries
+    .flatMap((entry) =>
+      entry.misheard.map((misheard) => ({
+        term: entry.term,
+        misheard,
+      }))
+    )
+    .sort((a, b) => b.misheard.length - a.misheard.length)
+    .map(({ term, misheard }) => ({
+      term,
+      length: misheard.trim().split(/\s+/).length, // in words
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])${misheard
+          .trim()
+          .split(/\s+/)
+          .map(escapeRegExp)
+          .join('\\s+')}(?![\\p{L}\\p{N}])`,
+        'giu'
+      ),
+    }))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+import 'dotenv/config'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import {
+  diarizeTracks,
+  getConfiguredTracks,
+  loadSpeakerConfig,
+  parseSpeakerTrack,
+} from './diarization'
+import {
+  getArtifactPath,
+  getEpisodeTracks,
+  loadEpisode,
+  withEpisodeNames,
+} from './episode'
+import {
+  buildGlossaryPrompt,
+  correctCues,
+  formatCorrectionReport,
+  loadGlossary,
+} from './glossary'
+import {
+  interleaveTrackCues,
+  mixTracks,
+  TrackTranscript,
+} from './multitrack'
+import { serializeVTT } from './transcript'
+import {
+  createTranscriptionBackend,
+  isTranscriptionBackendName,
+  TRANSCRIPTION_BACKENDS,
+} from './transcription-backends'
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  transcribeAudioFile,
+} from './transcribeAudio'
+
+const TRANSCRIPT_FILE = 'transcript.vtt'
+const MIXDOWN_FILE = 'audio.mp3'
+
+const USAGE = `Usage: npx ts-node scripts/ingest-tracks.ts [options]
+
+Transcribes a recording with one audio file per speaker into a single
+VTT with <v Name> tags, and mixes the tracks into one mp3.
+
+Options:
+  -e, --episode <id>      Use the episode's tracks, and replace its
+                          transcript and audio with --write
+  -t, --track <name=path> Audio file with only this speaker (repeatable)
+  -c, --config <path>     Speaker config whose speakers name a track
+  -o, --output <dir>      Where to write ${TRANSCRIPT_FILE} and ${MIXDOWN_FILE} (default: .)
+  -w, --write             Overwrite the episode's transcript and audio
+      --backend <name>    Transcription backend (openai, openai-compatible,
+                          whisper-cpp, faster-whisper, default openai)
+      --base-url <url>    Server for the openai-compatible backend
+      --model <name>      Model for the backend (default: the backend's)
+      --language <code>   Spoken language (default en)
+      --prompt <text>     Transcription prompt
+  -g, --glossary <path>   Glossary files (default glossary.json)
+      --bitrate <rate>    Bitrate of the mixdown (default 192k)
+  -h, --help              Show this help`
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      episode: { type: 'string', short: 'e' },
+      track: { type: 'string', short: 't', multiple: true },
+      config: { type: 'string', short: 'c' },
+      output: { type: 'string', short: 'o' },
+      backend: {
+        type: 'string',
+        default:
+          process.env.TRANSCRIPTION_BACKEND || 'openai',
+      },
+      'base-url': { type: 'string' },
+      model: { type: 'string' },
+      language: { type: 'string', default: 'en' },
+      prompt: {
+        type: 'string',
+        default: DEFAULT_SYSTEM_PROMPT,
+      },
+      glossary: {
+        type: 'string',
+        short: 'g',
+        multiple: true,
+      },
+      bitrate: { type: 'string', default: '192k' },
+      write: { type: 'boolean', short: 'w' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const tracks = [
+    ...(episode ? getEpisodeTracks(episode) : []),
+    ...(values.config
+      ? getConfiguredTracks(
+          await loadSpeakerConfig(values.config)
+        )
+      : []),
+    ...(values.track ?? []).map(parseSpeakerTrack),
+  ]
+  if (tracks.length === 0) {
+    consola.error(
+      'Pass the tracks with --track, --config or --episode'
+    )
+    process.exit(1)
+  }
+
+  // An explicit output directory wins over the episode's artifacts,
+  // which are only replaced with --write
+  const outputDir = values.output ?? '.'
+  const toEpisode = episode !== undefined && !values.output
+  const transcriptPath = toEpisode
+    ? getArtifactPath(episode, 'transcript')
+    : path.join(outputDir, TRANSCRIPT_FILE)
+  const mixdownPath = toEpisode
+    ? getArtifactPath(episode, 'audio')
+    : path.join(outputDir, MIXDOWN_FILE)
+  if (toEpisode && !values.write) {
+    consola.info(
+      `Would write ${transcriptPath} and ${mixdownPath}`
+    )
+    consola.info(
+      'Pass --write to replace the episode files, or --output to write elsewhere'
+    )
+    return
+  }
+
+  const backendName = values.backend as string
+  if (!isTranscriptionBackendName(backendName)) {
+    consola.error(
+      `Backend must be one of: ${TRANSCRIPTION_BACKENDS.join(
+        ', '
+      )}`
+    )
+    process.exit(1)
+  }
+  if (
+    backendName === 'openai' &&
+    !process.env.OPENAI_API_KEY
+  ) {
+    consola.error(
+      'OPENAI_API_KEY environment variable is not set'
+    )
+    process.exit(1)
+  }
+  const backend = createTranscriptionBackend(backendName, {
+    baseURL: values['base-url'],
+  })
+
+  const glossary = episode
+    ? withEpisodeNames(
+        await loadGlossary(values.glossary),
+        episode
+      )
+    : await loadGlossary(values.glossary)
+  const prompt = buildGlossaryPrompt(
+    values.prompt as string,
+    glossary
+  )
+
+  const transcripts: TrackTranscript[] = []
+  for (const track of tracks) {
+    consola.start(
+      `Transcribing ${track.speaker} (${track.path})...`
+    )
+    const transcription = await transcribeAudioFile(
+      track.path,
+      backend,
+      {
+        model: values.model ?? backend.defaultModel,
+        language: values.language as string,
+        prompt,
+      }
+    )
+    transcripts.push({
+      speaker: track.speaker,
+      cues: transcription.segments.map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+    })
+  }
+
+  consola.start('Finding who talks when...')
+  const { cues, substitutions } = correctCues(
+    interleaveTrackCues(
+      transcripts,
+      await diarizeTracks(tracks)
+    ),
+    glossary
+  )
+  consola.info(formatCorrectionReport(substitutions))
+
+  await fs.mkdir(outputDir, { recursive: true })
+  await fs.writeFile(
+    transcriptPath,
+    serializeVTT(cues),
+    'utf-8'
+  )
+  consola.success(
+    `Wrote ${transcriptPath} (${cues.length} cues)`
+  )
+
+  consola.start('Mixing down the tracks...')
+  await mixTracks(
+    tracks.map((track) => track.path),
+    mixdownPath,
+    values.bitrate
+  )
+  consola.success(`Wrote ${mixdownPath}`)
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
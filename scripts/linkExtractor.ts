@@ -1,11 +1,11 @@
 import 'dotenv/config'
-import { openai } from '@ai-sdk/openai'
 import { generateText } from 'ai'
 import {
   findMatchingFiles,
   safeReadFile,
   safeWriteFile,
-} from '../fileUtils'
+} from './fileUtils'
+import { getModel, getWebSearchTools } from './models'
 
 type LinkExtractorConfig = {
   numQueries?: number
@@ -32,7 +32,8 @@ function cleanUrl(url: string): string {
 
 /**
  * Extracts relevant links from a transcript by generating search queries
- * and using the OpenAI Responses API to find information.
+ * and using the OpenAI Responses API to find information. Other providers
+ * have no web search and suggest links from what they already know.
  */
 export async function extractRelevantLinks(
   transcript: string,
@@ -44,6 +45,12 @@ export async function extractRelevantLinks(
     numLinks = 15,
   } = config
 
+  if (!getWebSearchTools('links')) {
+    console.warn(
+      'No web search for the "links" model, links will come from the model alone'
+    )
+  }
+
   // Generate search queries based on the transcript
   const queries = await generateSearchQueries(
     transcript,
@@ -77,7 +84,7 @@ async function generateSearchQueries(
   numQueries: number
 ): Promise<string[]> {
   const result = await generateText({
-    model: openai('gpt-4.1'),
+    model: getModel('links'),
     prompt: `
 <transcript>
 ${transcript}
@@ -120,8 +127,12 @@ async function runWebSearch(
   try {
     console.log(`Searching: "${query}"`)
 
+    const tools = getWebSearchTools(
+      'links',
+      searchContextSize
+    )
     const result = await generateText({
-      model: openai.responses('gpt-4.1'),
+      model: getModel('links'),
       prompt: `
       <transcript>
       ${transcript}
@@ -133,16 +144,11 @@ async function runWebSearch(
 
       Based on the <search_query>, find relevant information. Return the most relevant 3 links that relates to the content in the <transcript>.
       `,
-      tools: {
-        web_search_preview: openai.tools.webSearchPreview({
-          searchContextSize,
-        }),
-      },
-      // Force tool usage
-      toolChoice: {
-        type: 'tool',
-        toolName: 'web_search_preview',
-      },
+      tools,
+      // Force tool usage when there is a tool to use
+      toolChoice: tools
+        ? { type: 'tool', toolName: 'web_search_preview' }
+        : undefined,
     })
 
     // Log out the text and sources in a nicely formatted way
@@ -191,16 +197,24 @@ async function processSearchResults(
 
   // Use AI to filter and rank the most relevant sources
   // First sort by URL to group by hostname
-  const sourcesText = allSources
-    .sort((a, b) => a.url.localeCompare(b.url))
-    .map(
-      (s) =>
-        `- ${s.title || 'Untitled'}: ${cleanUrl(s.url)}`
-    )
-    .join('\n')
+  // Without web search there are no sources, only the answers
+  const sourcesText =
+    allSources.length > 0
+      ? allSources
+          .sort((a, b) => a.url.localeCompare(b.url))
+          .map(
+            (s) =>
+              `- ${s.title || 'Untitled'}: ${cleanUrl(
+                s.url
+              )}`
+          )
+          .join('\n')
+      : searchResults
+          .map((result) => result.result)
+          .join('\n\n')
 
   const rankedLinks = await generateText({
-    model: openai('gpt-4.1'),
+    model: getModel('links'),
     prompt: `
       <transcript>
       ${transcript}
@@ -1,28 +1,41 @@
 import 'dotenv/config'
+import { parseArgs } from 'util'
 import {
   findMatchingFiles,
   safeReadFile,
-} from '../fileUtils'
+} from './fileUtils'
+import { getArtifactPath, loadEpisode } from './episode'
+import type { ProcessedTranscript } from './process-transcripts'
 
 const DEFAULT_INPUT_DIR = 'processed-transcripts'
 
-interface ProcessedTranscript {
-  title: string
-  description: string
-  duration: number
-}
-
 async function main() {
   try {
-    // Get directory from command line argument or use default
-    const inputDir = process.argv[2] || DEFAULT_INPUT_DIR
-    console.log(`Reading transcripts from: ${inputDir}`)
-
-    const jsonFiles = await findMatchingFiles(inputDir, {
-      fileFilter: ['.json'],
-      recursive: true,
+    const { values, positionals } = parseArgs({
+      allowPositionals: true,
+      options: { episode: { type: 'string' } },
     })
 
+    // One episode's metadata, or every file in a directory
+    let jsonFiles: string[]
+    if (values.episode) {
+      jsonFiles = [
+        getArtifactPath(
+          await loadEpisode(values.episode),
+          'metadata'
+        ),
+      ]
+    } else {
+      // Get directory from command line argument or use default
+      const inputDir = positionals[0] || DEFAULT_INPUT_DIR
+      console.log(`Reading transcripts from: ${inputDir}`)
+
+      jsonFiles = await findMatchingFiles(inputDir, {
+        fileFilter: ['.json'],
+        recursive: true,
+      })
+    }
+
     for (const filepath of jsonFiles) {
       const content = await safeReadFile(
         filepath,
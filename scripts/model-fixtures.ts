@@ -0,0 +1,187 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import {
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Middleware,
+} from 'ai'
+import { isFileNotFoundError } from './fs-errors'
+
+/**
+ * record: call the real model and save every response
+ * replay: answer from saved responses only, failing on a miss
+ */
+export type FixtureMode = 'record' | 'replay'
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/llm'
+
+type GenerateResult = Awaited<
+  ReturnType<LanguageModelV1['doGenerate']>
+>
+
+interface ModelFixture {
+  key: string
+  modelId: string
+  promptPreview: string // end of the last prompt message, for humans
+  result: Pick<
+    GenerateResult,
+    | 'text'
+    | 'reasoning'
+    | 'toolCalls'
+    | 'finishReason'
+    | 'usage'
+    | 'providerMetadata'
+    | 'sources'
+  >
+}
+
+/**
+ * Read LLM_FIXTURES, which turns on recording or replaying model calls
+ */
+export function getFixtureMode(): FixtureMode | undefined {
+  const mode = process.env.LLM_FIXTURES
+  if (!mode) return undefined
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(
+      `LLM_FIXTURES must be "record" or "replay", got "${mode}"`
+    )
+  }
+  return mode
+}
+
+/**
+ * Directory holding the fixture files (LLM_FIXTURES_DIR)
+ */
+export function getFixturesDir(): string {
+  return (
+    process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+  )
+}
+
+/**
+ * Wrap a model so its responses are recorded to, or replayed from,
+ * JSON files keyed by a hash of the model and prompt
+ */
+export function withFixtures(
+  model: LanguageModelV1,
+  mode: FixtureMode,
+  dir = getFixturesDir()
+): LanguageModelV1 {
+  return wrapLanguageModel({
+    model,
+    middleware: fixtureMiddleware(mode, dir),
+  })
+}
+
+function fixtureMiddleware(
+  mode: FixtureMode,
+  dir: string
+): LanguageModelV1Middleware {
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const key = getFixtureKey(model.modelId, params)
+      const fixturePath = join(dir, `${key}.json`)
+
+      if (mode === 'replay') {
+        const fixture = await readFixture(fixturePath)
+        if (!fixture) {
+          throw new Error(
+            `No recorded response for ${model.modelId} (${key}). Run with LLM_FIXTURES=record to create ${fixturePath}.`
+          )
+        }
+
+        return {
+          ...fixture.result,
+          rawCall: {
+            rawPrompt: params.prompt,
+            rawSettings: {},
+          },
+        }
+      }
+
+      const result = await doGenerate()
+      const fixture: ModelFixture = {
+        key,
+        modelId: model.modelId,
+        promptPreview: getPromptPreview(params),
+        result: {
+          text: result.text,
+          reasoning: result.reasoning,
+          toolCalls: result.toolCalls,
+          finishReason: result.finishReason,
+          usage: result.usage,
+          providerMetadata: result.providerMetadata,
+          sources: result.sources,
+        },
+      }
+
+      await mkdir(dir, { recursive: true })
+      await writeFile(
+        fixturePath,
+        JSON.stringify(fixture, null, 2) + '\n',
+        'utf-8'
+      )
+
+      return result
+    },
+    wrapStream: async () => {
+      throw new Error(
+        'Streaming is not supported with LLM_FIXTURES'
+      )
+    },
+  }
+}
+
+/**
+ * Hash everything that shapes the response: the model, the prompt,
+ * the output mode (tools or JSON schema) and sampling settings
+ */
+function getFixtureKey(
+  modelId: string,
+  params: LanguageModelV1CallOptions
+): string {
+  const relevant = {
+    modelId,
+    prompt: params.prompt,
+    mode: params.mode,
+    responseFormat: params.responseFormat,
+    temperature: params.temperature,
+    maxTokens: params.maxTokens,
+  }
+
+  return createHash('sha256')
+    .update(JSON.stringify(relevant))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+async function readFixture(
+  fixturePath: string
+): Promise<ModelFixture | undefined> {
+  try {
+    return JSON.parse(
+      await readFile(fixturePath, 'utf-8')
+    ) as ModelFixture
+  } catch (error: unknown) {
+    if (isFileNotFoundError(error)) return undefined
+    throw error
+  }
+}
+
+function getPromptPreview(
+  params: LanguageModelV1CallOptions
+): string {
+  const lastMessage =
+    params.prompt[params.prompt.length - 1]
+  const text =
+    typeof lastMessage?.content === 'string'
+      ? lastMessage.content
+      : (lastMessage?.content ?? [])
+          .map((part) => ('text' in part ? part.text : ''))
+          .join(' ')
+
+  return text.trim().slice(-200)
+}
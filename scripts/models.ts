@@ -0,0 +1,288 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { existsSync, readFileSync } from 'fs'
+import { createOpenAI, openai } from '@ai-sdk/openai'
+import type { LanguageModel } from 'ai'
+import { z } from 'zod'
+import {
+  FixtureMode,
+  getFixtureMode,
+  withFixtures,
+} from './model-fixtures'
+
+/**
+ * Every step that calls a language model. Each one can use its own
+ * provider and model, e.g. a cheaper model for timestamps.
+ */
+export type ModelTask =
+  | 'chapters'
+  | 'timestamps'
+  | 'metadata'
+  | 'links'
+  | 'release-notes'
+
+export interface ModelSpec {
+  provider: string
+  model: string
+}
+
+/**
+ * Gives the model for a task, in place of the configured ones
+ */
+export type ModelFactory = (
+  task: ModelTask
+) => LanguageModel
+
+const DEFAULT_MODEL = 'openai:gpt-4.1'
+
+// USD per million input tokens, for dry-run estimates only
+const INPUT_TOKEN_PRICES: Record<string, number> = {
+  'openai:gpt-4.1': 2,
+  'openai:gpt-4.1-mini': 0.4,
+  'openai:gpt-4.1-nano': 0.1,
+  'openai:gpt-4o': 2.5,
+  'openai:gpt-4o-mini': 0.15,
+}
+const DEFAULT_CONFIG_PATH = 'models.config.json'
+
+// OpenAI-compatible local servers that work without any configuration
+const BUILT_IN_PROVIDERS: Record<
+  string,
+  { baseURL: string }
+> = {
+  ollama: { baseURL: 'http://localhost:11434/v1' },
+  llamacpp: { baseURL: 'http://localhost:8080/v1' },
+}
+
+const modelConfigSchema = z.object({
+  default: z.string().optional(),
+  tasks: z
+    .record(
+      z.enum([
+        'chapters',
+        'timestamps',
+        'metadata',
+        'links',
+        'release-notes',
+      ]),
+      z.string()
+    )
+    .optional(),
+  providers: z
+    .record(
+      z.object({
+        baseURL: z.string().url(),
+        apiKey: z.string().optional(),
+      })
+    )
+    .optional(),
+})
+
+type ModelConfig = z.infer<typeof modelConfigSchema>
+
+let cachedConfig: ModelConfig | undefined
+
+const modelScope = new AsyncLocalStorage<ModelFactory>()
+
+/**
+ * Read models.config.json (or the file in MODELS_CONFIG) if it exists
+ */
+function loadModelConfig(): ModelConfig {
+  if (cachedConfig) return cachedConfig
+
+  const configPath =
+    process.env.MODELS_CONFIG || DEFAULT_CONFIG_PATH
+  if (!existsSync(configPath)) {
+    if (process.env.MODELS_CONFIG) {
+      throw new Error(
+        `Model config not found: ${configPath}`
+      )
+    }
+    cachedConfig = {}
+    return cachedConfig
+  }
+
+  const parsed = modelConfigSchema.safeParse(
+    JSON.parse(readFileSync(configPath, 'utf-8'))
+  )
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid model config ${configPath}: ${parsed.error.message}`
+    )
+  }
+
+  cachedConfig = parsed.data
+  return cachedConfig
+}
+
+/**
+ * Parse a "provider:model" string. A bare model name means OpenAI.
+ */
+export function parseModelSpec(spec: string): ModelSpec {
+  const separator = spec.indexOf(':')
+  if (separator === -1) {
+    return { provider: 'openai', model: spec }
+  }
+
+  return {
+    provider: spec.slice(0, separator),
+    model: spec.slice(separator + 1),
+  }
+}
+
+/**
+ * Work out which provider and model a task uses, in order of precedence:
+ * MODEL_<TASK> (e.g. MODEL_RELEASE_NOTES), the task in the config file,
+ * MODEL_DEFAULT, the config default, then gpt-4.1
+ */
+export function resolveModelSpec(
+  task: ModelTask
+): ModelSpec {
+  const config = loadModelConfig()
+  const taskEnv = `MODEL_${task
+    .toUpperCase()
+    .replace(/-/g, '_')}`
+
+  return parseModelSpec(
+    process.env[taskEnv] ||
+      config.tasks?.[task] ||
+      process.env.MODEL_DEFAULT ||
+      config.default ||
+      DEFAULT_MODEL
+  )
+}
+
+/**
+ * Get the language model configured for a task. Inside withModels the
+ * factory given there decides; otherwise, with LLM_FIXTURES set, calls
+ * are recorded to or replayed from fixture files.
+ */
+export function getModel(task: ModelTask): LanguageModel {
+  const factory = modelScope.getStore()
+  if (factory) return factory(task)
+
+  const languageModel = createModel(resolveModelSpec(task))
+  const fixtureMode = getFixtureMode()
+
+  return fixtureMode
+    ? withFixtures(languageModel, fixtureMode)
+    : languageModel
+}
+
+/**
+ * Run `fn` with every model it asks for coming from `factory`, e.g. to
+ * replay fixtures in tests. Calls outside of `fn` are not affected.
+ */
+export function withModels<T>(
+  factory: ModelFactory,
+  fn: () => Promise<T>
+): Promise<T> {
+  return modelScope.run(factory, fn)
+}
+
+/**
+ * The configured models (or the ones from `factory`) with their calls
+ * recorded to, or replayed from, the fixture files in `dir`
+ */
+export function fixtureModels(
+  mode: FixtureMode,
+  dir: string,
+  factory: ModelFactory = (task) =>
+    createModel(resolveModelSpec(task))
+): ModelFactory {
+  return (task) => withFixtures(factory(task), mode, dir)
+}
+
+/**
+ * The language model for a spec, e.g. to pin one regardless of the
+ * local config
+ */
+export function createModel({
+  provider,
+  model,
+}: ModelSpec): LanguageModel {
+  if (provider === 'openai') {
+    return openai.responses(model)
+  }
+
+  const settings = getProviderSettings(provider)
+  return createOpenAI({
+    name: provider,
+    baseURL: settings.baseURL,
+    // Local servers usually ignore the key, but the client requires one
+    apiKey: settings.apiKey || 'not-needed',
+    compatibility: 'compatible',
+  })(model)
+}
+
+/**
+ * Rough input cost of a task in USD. Undefined for models without a
+ * known price; local providers are free.
+ */
+export function estimateInputCost(
+  task: ModelTask,
+  tokens: number
+): number | undefined {
+  const { provider, model } = resolveModelSpec(task)
+  if (BUILT_IN_PROVIDERS[provider]) return 0
+
+  const price = INPUT_TOKEN_PRICES[`${provider}:${model}`]
+  return price !== undefined
+    ? (tokens / 1_000_000) * price
+    : undefined
+}
+
+/**
+ * Web search is only available through the OpenAI Responses API, so
+ * other providers get no tools and answer from the transcript and what
+ * the model knows. The provider is the one getModel gives, so models
+ * from withModels count too.
+ */
+export function getWebSearchTools(
+  task: ModelTask,
+  searchContextSize: 'low' | 'medium' | 'high' = 'medium'
+) {
+  // e.g. openai.responses
+  if (getModel(task).provider.split('.')[0] !== 'openai') {
+    return undefined
+  }
+
+  return {
+    web_search_preview: openai.tools.webSearchPreview({
+      searchContextSize,
+    }),
+  }
+}
+
+/**
+ * Connection settings for an OpenAI-compatible provider, from
+ * <PROVIDER>_BASE_URL / <PROVIDER>_API_KEY, the config file, or the
+ * built-in defaults for local servers
+ */
+function getProviderSettings(provider: string): {
+  baseURL: string
+  apiKey?: string
+} {
+  const config = loadModelConfig()
+  const envPrefix = provider
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '_')
+  const configured =
+    config.providers?.[provider] ??
+    BUILT_IN_PROVIDERS[provider]
+
+  const baseURL =
+    process.env[`${envPrefix}_BASE_URL`] ||
+    configured?.baseURL
+  if (!baseURL) {
+    throw new Error(
+      `Unknown model provider "${provider}". Add it to ${DEFAULT_CONFIG_PATH} or set ${envPrefix}_BASE_URL.`
+    )
+  }
+
+  return {
+    baseURL,
+    apiKey:
+      process.env[`${envPrefix}_API_KEY`] ||
+      config.providers?.[provider]?.apiKey,
+  }
+}
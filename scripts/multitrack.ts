@@ -0,0 +1,91 @@
+import ffmpeg from 'fluent-ffmpeg'
+import type { SpeakerTurn } from './diarization'
+import type { TranscriptCue } from './transcript'
+
+export interface TrackTranscript {
+  speaker: string
+  cues: TranscriptCue[]
+}
+
+// A cue needs this share of its time in its own speaker's turns. The rest
+// is the other hosts bleeding into the microphone, or text the model made
+// up over silence.
+const MIN_OWN_SPEECH = 0.3
+
+// Podcast loudness target of the mixdown
+const LOUDNESS_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11'
+
+/**
+ * Merge the transcripts of per-speaker tracks into one, ordered by time
+ * and tagged with the speaker of each track. With the speaker turns of
+ * the tracks, cues where that speaker was not actually talking are
+ * dropped.
+ */
+export function interleaveTrackCues(
+  tracks: TrackTranscript[],
+  turns?: SpeakerTurn[]
+): TranscriptCue[] {
+  return tracks
+    .flatMap((track) =>
+      track.cues
+        .filter(
+          (cue) =>
+            !turns ||
+            getOwnSpeech(cue, track.speaker, turns) >=
+              MIN_OWN_SPEECH
+        )
+        .map((cue) => ({ ...cue, speaker: track.speaker }))
+    )
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+}
+
+/**
+ * Mix the tracks down to a single mp3 for the feed, normalized to
+ * podcast loudness
+ */
+export function mixTracks(
+  inputPaths: string[],
+  outputPath: string,
+  bitrate: string = '192k'
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg()
+    inputPaths.forEach((inputPath) =>
+      command.input(inputPath)
+    )
+
+    command
+      .complexFilter(
+        `amix=inputs=${inputPaths.length}:duration=longest:dropout_transition=0,${LOUDNESS_FILTER}`
+      )
+      .toFormat('mp3')
+      .audioBitrate(bitrate)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .save(outputPath)
+  })
+}
+
+// Share of the cue during which its speaker is talking
+function getOwnSpeech(
+  cue: TranscriptCue,
+  speaker: string,
+  turns: SpeakerTurn[]
+): number {
+  const duration = cue.end - cue.start
+  if (duration <= 0) return 1
+
+  const talking = turns
+    .filter((turn) => turn.speaker === speaker)
+    .reduce(
+      (sum, turn) =>
+        sum +
+        Math.max(
+          0,
+          Math.min(cue.end, turn.end) -
+            Math.max(cue.start, turn.start)
+        ),
+      0
+    )
+  return talking / duration
+}
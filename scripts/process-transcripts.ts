@@ -6,24 +6,34 @@ import {
   readdir,
   access,
 } from 'fs/promises'
+import { existsSync } from 'fs'
 import { join, dirname } from 'path'
 import { generateText } from 'ai'
-import { openai } from '@ai-sdk/openai'
 import { exec } from 'child_process'
-import { promisify } from 'util'
+import { parseArgs, promisify } from 'util'
 import {
-  processFiles,
+  processFilesWithReport,
+  formatProcessReport,
+  planFiles,
+  formatPlan,
   ContentProcessor,
-} from './scripts/fileUtils'
+} from './fileUtils'
+import {
+  getModel,
+  getWebSearchTools,
+  resolveModelSpec,
+  estimateInputCost,
+} from './models'
+import { getArtifactPath, loadEpisode } from './episode'
 
 const execAsync = promisify(exec)
 
-interface Transcript {
+export interface Transcript {
   filename: string
   content: string
 }
 
-interface ProcessedTranscript {
+export interface ProcessedTranscript {
   title: string
   description: string
   duration: number
@@ -33,6 +43,17 @@ interface ProcessedTranscript {
 const DEFAULT_INPUT_DIR = 'transcripts'
 const DEFAULT_VIDEOS_DIR = 'videos'
 const DEFAULT_OUTPUT_DIR = 'processed-transcripts'
+const LESSON_META_PROMPT = 'prompts/lesson-meta.md'
+
+// Transcripts processed at the same time, and retries on rate limits
+// or server errors
+const CONCURRENCY = 3
+const MAX_RETRIES = 3
+
+// About four characters per token for English text
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
 
 async function getVideoDuration(
   videoPath: string
@@ -58,7 +79,7 @@ async function readVttFile(
   return content
 }
 
-async function editResponse(
+export async function editResponse(
   processed: ProcessedTranscript
 ): Promise<ProcessedTranscript> {
   const prompt = `Edit to remove the following words from the title and description (including variations):
@@ -75,7 +96,7 @@ ${JSON.stringify(processed, null, 2)}
 Output should be in the same JSON format, with the same structure but with these words replaced.`
 
   const { text } = await generateText({
-    model: openai.responses('gpt-4.1'),
+    model: getModel('metadata'),
     prompt,
   })
 
@@ -107,24 +128,18 @@ Output should be in the same JSON format, with the same structure but with these
   }
 }
 
-async function processTranscript(
-  transcript: Transcript
+export async function processTranscript(
+  transcript: Transcript,
+  promptPath: string = LESSON_META_PROMPT
 ): Promise<ProcessedTranscript> {
-  const prompt = await readFile(
-    'prompts/lesson-meta.md',
-    'utf-8'
-  )
+  const prompt = await readFile(promptPath, 'utf-8')
 
   const transcriptXml = `<transcript>\n${transcript.content}\n</transcript>`
 
   const { text } = await generateText({
-    model: openai.responses('gpt-4.1'),
+    model: getModel('metadata'),
     prompt: `<transcripts>\n${transcriptXml}\n</transcripts>\n\n${prompt}`,
-    tools: {
-      web_search_preview: openai.tools.webSearchPreview({
-        searchContextSize: 'high',
-      }),
-    },
+    tools: getWebSearchTools('metadata', 'high'),
   })
 
   // Extract JSON from the response if it's wrapped in code blocks
@@ -207,6 +222,19 @@ async function findVideoFile(
 }
 
 async function main() {
+  const { values } = parseArgs({
+    options: {
+      // Process one episode's transcript instead of a directory
+      episode: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+
   const transcriptProcessor: ContentProcessor<ProcessedTranscript> =
     {
       process: async (content, metadata) => {
@@ -219,13 +247,20 @@ async function main() {
           transcript
         )
 
-        // Find the video file with the correct extension
-        const baseVideoPath = metadata.inputPath.replace(
-          metadata.inputPath.split('/')[0],
-          DEFAULT_VIDEOS_DIR
-        )
-
-        const videoPath = await findVideoFile(baseVideoPath)
+        // An episode's video is in its manifest, otherwise find the
+        // video file with the correct extension
+        const episodeVideoPath =
+          episode && getArtifactPath(episode, 'video')
+        const videoPath = episodeVideoPath
+          ? existsSync(episodeVideoPath)
+            ? episodeVideoPath
+            : null
+          : await findVideoFile(
+              metadata.inputPath.replace(
+                metadata.inputPath.split('/')[0],
+                DEFAULT_VIDEOS_DIR
+              )
+            )
         if (!videoPath) {
           console.warn(
             `No video file found for ${metadata.filename}`
@@ -242,24 +277,89 @@ async function main() {
       },
     }
 
-  try {
-    await processFiles<ProcessedTranscript>(
-      DEFAULT_INPUT_DIR,
-      {
-        outputDir: DEFAULT_OUTPUT_DIR,
-        processor: transcriptProcessor,
-        fileFilter: ['.vtt'],
-        recursive: true,
-        outputExtension: '.json',
-        outputWriter: async (result, outputPath) => {
-          await writeFile(
-            outputPath,
-            JSON.stringify(result, null, 2),
-            'utf-8'
-          )
-        },
-      }
+  const lessonMetaPrompt = await readFile(
+    LESSON_META_PROMPT,
+    'utf-8'
+  )
+  // An episode turns its transcript into its metadata
+  const input = episode
+    ? getArtifactPath(episode, 'transcript')
+    : DEFAULT_INPUT_DIR
+  const fileOptions = {
+    ...(episode
+      ? {
+          outputDir: episode.dir,
+          fileFilter: () => true,
+          outputPath: () =>
+            getArtifactPath(episode, 'metadata'),
+        }
+      : {
+          outputDir: DEFAULT_OUTPUT_DIR,
+          fileFilter: ['.vtt'],
+          recursive: true,
+          outputExtension: '.json',
+        }),
+    // Rerun a transcript when the prompt or model changes
+    cacheKey: () => ({
+      prompt: lessonMetaPrompt,
+      model: resolveModelSpec('metadata'),
+    }),
+  }
+
+  // Show what would be processed and roughly what it costs, without
+  // calling the model or writing anything
+  if (values['dry-run']) {
+    const plan = await planFiles(input, {
+      ...fileOptions,
+      estimate: async (inputPath) => {
+        const transcript = await readFile(
+          inputPath,
+          'utf-8'
+        )
+        const tokens = estimateTokens(
+          transcript + lessonMetaPrompt
+        )
+        return {
+          tokens,
+          usd: estimateInputCost('metadata', tokens),
+        }
+      },
+    })
+    console.log(
+      values.json
+        ? JSON.stringify(plan, null, 2)
+        : formatPlan(plan)
     )
+    return
+  }
+
+  try {
+    const report =
+      await processFilesWithReport<ProcessedTranscript>(
+        input,
+        {
+          ...fileOptions,
+          processor: transcriptProcessor,
+          concurrency: CONCURRENCY,
+          retries: MAX_RETRIES,
+          outputWriter: async (result, outputPath) => {
+            await writeFile(
+              outputPath,
+              JSON.stringify(result, null, 2),
+              'utf-8'
+            )
+          },
+          onProgress: ({ completed, total, status }) => {
+            if (status !== 'retrying') {
+              console.log(`[${completed}/${total}]`)
+            }
+          },
+        }
+      )
+    console.log(formatProcessReport(report))
+    if (report.failed.length > 0) {
+      process.exit(1)
+    }
     console.log('Processing completed successfully!')
   } catch (error) {
     console.error('Error during processing:', error)
@@ -267,4 +367,6 @@ async function main() {
   }
 }
 
-main().catch(console.error)
+if (require.main === module) {
+  main().catch(console.error)
+}
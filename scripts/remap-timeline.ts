@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs'
+import * as fs from 'fs/promises'
+import { extname } from 'path'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import {
+  formatChaptersFile,
+  parseChaptersFile,
+} from './chapters-file'
+import { getArtifactPath, loadEpisode } from './episode'
+import {
+  editsFromEditDecisionList,
+  parseEditDecisionList,
+  parseTimelineEdit,
+  remapChapters,
+  remapCues,
+  remapTranscription,
+  TimelineEdit,
+} from './timeline'
+import {
+  parseTimestampedText,
+  parseVTT,
+  serializeTimestampedText,
+  serializeVTT,
+} from './transcript'
+
+// What a .txt file holds: a chapters.txt or a timestamped transcript
+const TEXT_KINDS = ['chapters', 'transcript'] as const
+type TextKind = (typeof TEXT_KINDS)[number]
+
+const USAGE = `Usage: npx ts-node scripts/remap-timeline.ts [file] [options]
+
+Moves the timestamps of a transcript or chapter list to a recording that
+was cut or extended. Supports VTT transcripts, JSON transcripts with word
+timings, chapters.txt files, timestamped text transcripts and the
+chapters CLI's JSON output.
+
+Options:
+      --edl <path>          Removed ranges from pnpm strip-silence
+  -r, --remove <start-end>  A range that was cut, e.g. 0-12.5 or 01:02-01:30
+                            (repeatable)
+  -i, --insert <at+dur>     Material put in at a time, e.g. 0+8 for an 8s
+                            intro (repeatable)
+  -e, --episode <id>        Remap the episode's transcripts and chapters, in
+                            place with --write
+  -o, --output <path>       Where to write the result (default: print it)
+  -w, --write               Update the file in place
+      --txt <kind>          What a .txt file is: chapters or transcript
+                            (default: chapters if it reads as chapters.txt)
+  -h, --help                Show this help
+
+All times are in the original recording.`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      edl: { type: 'string' },
+      remove: {
+        type: 'string',
+        short: 'r',
+        multiple: true,
+      },
+      insert: {
+        type: 'string',
+        short: 'i',
+        multiple: true,
+      },
+      episode: { type: 'string', short: 'e' },
+      output: { type: 'string', short: 'o' },
+      write: { type: 'boolean', short: 'w' },
+      txt: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [inputPath] = positionals
+  if (values.help || (!inputPath && !values.episode)) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  if (
+    values.txt !== undefined &&
+    !(TEXT_KINDS as readonly string[]).includes(values.txt)
+  ) {
+    consola.error('--txt must be chapters or transcript')
+    process.exit(1)
+  }
+  const textKind = values.txt as TextKind | undefined
+
+  const edits: TimelineEdit[] = [
+    ...(values.edl
+      ? editsFromEditDecisionList(
+          parseEditDecisionList(
+            await fs.readFile(values.edl, 'utf-8'),
+            values.edl
+          )
+        )
+      : []),
+    ...(values.remove ?? []).map(parseTimelineEdit),
+    ...(values.insert ?? []).map(parseTimelineEdit),
+  ]
+  if (edits.length === 0) {
+    consola.error(
+      'Pass the edits with --edl, --remove or --insert'
+    )
+    process.exit(1)
+  }
+
+  if (values.episode) {
+    const episode = await loadEpisode(values.episode)
+    for (const name of [
+      'transcript',
+      'transcriptJson',
+      'chapters',
+    ] as const) {
+      const artifactPath = getArtifactPath(episode, name)
+      if (!existsSync(artifactPath)) continue
+      const remapped = await remapFile(
+        artifactPath,
+        edits,
+        name === 'chapters' ? 'chapters' : textKind
+      )
+      if (!values.write) {
+        consola.info(`Would remap ${artifactPath}`)
+        continue
+      }
+      await fs.writeFile(artifactPath, remapped, 'utf-8')
+      consola.success(`Remapped ${artifactPath}`)
+    }
+    if (!values.write) {
+      consola.info(
+        'Pass --write to update the episode files in place'
+      )
+    }
+    return
+  }
+
+  const remapped = await remapFile(
+    inputPath,
+    edits,
+    textKind
+  )
+  const outputPath = values.write
+    ? inputPath
+    : values.output
+  if (outputPath) {
+    await fs.writeFile(outputPath, remapped, 'utf-8')
+    consola.success(`Wrote ${outputPath}`)
+  } else {
+    process.stdout.write(remapped)
+  }
+}
+
+/**
+ * Remap a file by its format and return the new content
+ */
+async function remapFile(
+  filePath: string,
+  edits: TimelineEdit[],
+  textKind?: TextKind
+): Promise<string> {
+  const content = await fs.readFile(filePath, 'utf-8')
+
+  switch (extname(filePath).toLowerCase()) {
+    case '.vtt':
+      return serializeVTT(
+        remapCues(parseVTT(content), edits)
+      )
+    case '.txt':
+      return remapText(content, edits, textKind)
+    case '.json': {
+      const data = JSON.parse(content)
+      const remapped = Array.isArray(data)
+        ? remapChapters(data, edits)
+        : remapTranscription(data, edits)
+      return JSON.stringify(remapped, null, 2)
+    }
+    default:
+      throw new Error(
+        `Can't remap ${filePath}, expected a .vtt, .txt or .json file`
+      )
+  }
+}
+
+/**
+ * Remap a chapters.txt or a timestamped transcript. Without a kind, a
+ * file that doesn't parse as chapters.txt is taken as a transcript.
+ */
+function remapText(
+  content: string,
+  edits: TimelineEdit[],
+  textKind?: TextKind
+): string {
+  if (textKind !== 'transcript') {
+    try {
+      return formatChaptersFile(
+        remapChapters(parseChaptersFile(content), edits)
+      )
+    } catch (error: unknown) {
+      if (textKind === 'chapters') throw error
+    }
+  }
+
+  const cues = parseTimestampedText(content)
+  if (cues.length === 0) {
+    throw new Error(
+      'Found no timestamps in the text to remap'
+    )
+  }
+  return serializeTimestampedText(remapCues(cues, edits))
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
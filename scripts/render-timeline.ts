@@ -0,0 +1,184 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs'
+import * as fs from 'fs/promises'
+import { extname } from 'path'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import {
+  ChapterMarker,
+  parseChaptersFile,
+} from './chapters-file'
+import {
+  Episode,
+  getArtifactPath,
+  loadEpisode,
+} from './episode'
+import { extractSpeakerChanges } from './extract-speaker-changes'
+import { detectSilences, parseThreshold } from './silence'
+import type { Chapter } from './transcript-chapters'
+import {
+  computeWaveformPeaks,
+  DEFAULT_TIMELINE_SIZE,
+  TimelineLayers,
+  writeTimeline,
+} from './waveform'
+
+const DEFAULT_THRESHOLD = -30 // dB
+const DEFAULT_MIN_DURATION = 1 // seconds of silence
+
+const USAGE = `Usage: pnpm timeline [audio] [options]
+
+Draws the waveform of a recording with detected silences, speaker turns
+and chapter starts, to see why a chapter boundary landed where it did.
+
+Options:
+  -o, --output <path>       .png or .svg to write (repeatable, default
+                            timeline.png)
+  -e, --episode <id>        Use the episode's audio, transcript and
+                            published chapters
+  -t, --transcript <path>   Draw speaker turns from the <v> tags
+  -p, --proposed <path>     Generated chapters (.json from pnpm chapters,
+                            or .txt)
+      --published <path>    Published chapters.txt
+  -s, --silences            Detect and draw silences
+  -n, --threshold <dB>      Silence threshold (default ${DEFAULT_THRESHOLD},
+                            --threshold=-35 or -n 35 for another)
+  -d, --min-duration <s>    Shortest silence to draw (default ${DEFAULT_MIN_DURATION})
+      --width <px>          Default ${DEFAULT_TIMELINE_SIZE.width}
+      --height <px>         Default ${DEFAULT_TIMELINE_SIZE.height}
+  -h, --help                Show this help
+
+Published chapters are blue, proposed ones orange, silences red and
+every speaker gets a color in the band at the bottom.`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: {
+        type: 'string',
+        short: 'o',
+        multiple: true,
+      },
+      episode: { type: 'string', short: 'e' },
+      transcript: { type: 'string', short: 't' },
+      proposed: { type: 'string', short: 'p' },
+      published: { type: 'string' },
+      silences: { type: 'boolean', short: 's' },
+      threshold: { type: 'string', short: 'n' },
+      'min-duration': { type: 'string', short: 'd' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const inputPath =
+    positionals[0] ??
+    (episode && getArtifactPath(episode, 'audio'))
+  if (values.help || !inputPath) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const transcriptPath =
+    values.transcript ??
+    (episode && existingArtifact(episode, 'transcript'))
+  const publishedPath =
+    values.published ??
+    (episode && existingArtifact(episode, 'chapters'))
+
+  const layers: TimelineLayers = {}
+  if (values.silences) {
+    consola.start('Detecting silences...')
+    layers.silences = await detectSilences(inputPath, {
+      threshold:
+        values.threshold !== undefined
+          ? parseThreshold(values.threshold)
+          : DEFAULT_THRESHOLD,
+      minDuration:
+        values['min-duration'] !== undefined
+          ? parseFloat(values['min-duration'])
+          : DEFAULT_MIN_DURATION,
+    })
+  }
+  if (transcriptPath) {
+    layers.speakerChanges = await extractSpeakerChanges(
+      transcriptPath
+    )
+  }
+  if (values.proposed) {
+    layers.proposedChapters = await readChapters(
+      values.proposed
+    )
+  }
+  if (publishedPath) {
+    layers.publishedChapters = await readChapters(
+      publishedPath
+    )
+  }
+
+  const size = {
+    width: values.width
+      ? parseInt(values.width)
+      : DEFAULT_TIMELINE_SIZE.width,
+    height: values.height
+      ? parseInt(values.height)
+      : DEFAULT_TIMELINE_SIZE.height,
+  }
+  if (!(size.width > 0 && size.height > 0)) {
+    consola.error('--width and --height must be positive')
+    process.exit(1)
+  }
+
+  // Decoded once for every output
+  consola.start(`Reading the waveform of ${inputPath}...`)
+  const waveform = await computeWaveformPeaks(inputPath)
+  for (const outputPath of values.output ?? [
+    'timeline.png',
+  ]) {
+    await writeTimeline(waveform, outputPath, layers, size)
+    consola.success(`Wrote ${outputPath}`)
+  }
+}
+
+function existingArtifact(
+  episode: Episode,
+  name: 'transcript' | 'chapters'
+): string | undefined {
+  const artifactPath = getArtifactPath(episode, name)
+  return existsSync(artifactPath) ? artifactPath : undefined
+}
+
+/**
+ * Read chapters.txt or the chapters CLI's JSON output
+ */
+async function readChapters(
+  filePath: string
+): Promise<ChapterMarker[]> {
+  const content = await fs.readFile(filePath, 'utf-8')
+  if (extname(filePath).toLowerCase() !== '.json') {
+    return parseChaptersFile(content)
+  }
+  return (JSON.parse(content) as Chapter[]).flatMap(
+    (chapter) =>
+      chapter.startTime === undefined
+        ? []
+        : [
+            {
+              title: chapter.title,
+              startTime: chapter.startTime,
+            },
+          ]
+  )
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
@@ -1,5 +1,5 @@
 import { generateText } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import { getModel } from './models'
 
 interface SearchResult {
   title: string
@@ -28,7 +28,7 @@ Return the results in JSON format with the following structure:
 Only include links that are highly relevant to the lesson content. The relevance score should reflect how directly the link relates to the lesson's main topics.`
 
   const { text } = await generateText({
-    model: openai.responses('gpt-4.1'),
+    model: getModel('links'),
     prompt,
     temperature: 0.7,
     maxTokens: 500,
@@ -0,0 +1,90 @@
+import type { ChapterMarker } from './chapters-file'
+import type { TranscriptCue } from './transcript'
+
+// Words of the first cue used as a chapter title
+const MAX_TITLE_WORDS = 8
+
+/**
+ * Chapter starts for a recording: the beginning, then every point where
+ * speech resumes after a silence. Starts closer than `minLength` seconds
+ * to the previous one or to the end are skipped.
+ */
+export function chapterStartsFromSilenceEnds(
+  silenceEnds: number[],
+  duration: number,
+  minLength: number = 1
+): number[] {
+  const starts = [0]
+  for (const end of [...silenceEnds].sort(
+    (a, b) => a - b
+  )) {
+    if (
+      end - starts[starts.length - 1] >= minLength &&
+      duration - end >= minLength
+    ) {
+      starts.push(end)
+    }
+  }
+  return starts
+}
+
+/**
+ * Name chapters after the first words spoken in them, or "Chapter N"
+ * without a transcript or when nobody speaks
+ */
+export function titleChapters(
+  starts: number[],
+  cues: TranscriptCue[] = []
+): ChapterMarker[] {
+  return starts.map((startTime, index) => {
+    const nextStart = starts[index + 1] ?? Infinity
+    const cue = cues.find(
+      (cue) =>
+        cue.end > startTime &&
+        cue.start < nextStart &&
+        cue.text.trim() !== ''
+    )
+    return {
+      title: cue
+        ? toTitle(cue.text)
+        : `Chapter ${index + 1}`,
+      startTime,
+    }
+  })
+}
+
+/**
+ * Serialize chapters to ffmpeg's FFMETADATA1 format, in milliseconds.
+ * Each chapter ends where the next one starts and the last one at
+ * `duration`.
+ */
+export function buildMetadataFile(
+  chapters: ChapterMarker[],
+  duration: number
+): string {
+  const lines = [';FFMETADATA1']
+  chapters.forEach((chapter, index) => {
+    const end = chapters[index + 1]?.startTime ?? duration
+    lines.push(
+      '',
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.startTime * 1000)}`,
+      `END=${Math.round(end * 1000)}`,
+      `title=${escapeMetadataValue(chapter.title)}`
+    )
+  })
+  return lines.join('\n') + '\n'
+}
+
+function toTitle(text: string): string {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ')
+  return words.length > MAX_TITLE_WORDS
+    ? `${words.slice(0, MAX_TITLE_WORDS).join(' ')}…`
+    : words.join(' ')
+}
+
+// "=", ";", "#", "\" and newlines have to be escaped in metadata values
+function escapeMetadataValue(value: string): string {
+  return value.replace(/[=;#\\\n]/g, '\\$&')
+}
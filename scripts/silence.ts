@@ -0,0 +1,109 @@
+import ffmpeg from 'fluent-ffmpeg'
+
+export interface SilenceInterval {
+  start: number // in seconds
+  end: number // in seconds
+}
+
+export interface SilenceDetectOptions {
+  threshold?: number // in dB, quieter than this counts as silence
+  minDuration?: number // in seconds
+}
+
+const DEFAULT_THRESHOLD = -30
+const DEFAULT_MIN_DURATION = 0.5
+
+const SILENCE_START_PATTERN = /silence_start:\s*(-?[\d.]+)/
+const SILENCE_END_PATTERN = /silence_end:\s*(-?[\d.]+)/
+
+/**
+ * Read a --threshold flag. parseArgs takes `-40` for another flag, so
+ * `--threshold=-40` and the magnitude `40` both mean 40 dB below full
+ * scale. NaN when the value is not a number.
+ */
+export function parseThreshold(value: string): number {
+  return -Math.abs(parseFloat(value))
+}
+
+/**
+ * Run ffmpeg's silencedetect filter over a media file
+ */
+export function detectSilences(
+  inputPath: string,
+  options: SilenceDetectOptions = {}
+): Promise<SilenceInterval[]> {
+  const {
+    threshold = DEFAULT_THRESHOLD,
+    minDuration = DEFAULT_MIN_DURATION,
+  } = options
+
+  return new Promise((resolve, reject) => {
+    const output: string[] = []
+    let duration: number | undefined
+
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioFilters(
+        `silencedetect=n=${threshold}dB:d=${minDuration}`
+      )
+      .format('null')
+      .output('-')
+      .on('codecData', (data) => {
+        duration = parseDuration(data.duration)
+      })
+      .on('stderr', (line: string) => output.push(line))
+      .on('end', () =>
+        resolve(
+          parseSilenceDetectOutput(
+            output.join('\n'),
+            duration
+          )
+        )
+      )
+      .on('error', (err: Error) => reject(err))
+      .run()
+  })
+}
+
+/**
+ * Parse the silence_start / silence_end lines silencedetect logs. A
+ * silence still running when the file ends has no silence_end, so it
+ * is closed at `duration` when given and dropped otherwise.
+ */
+export function parseSilenceDetectOutput(
+  output: string,
+  duration?: number
+): SilenceInterval[] {
+  const silences: SilenceInterval[] = []
+  let start: number | undefined
+
+  for (const line of output.split(/\r?\n/)) {
+    const startMatch = line.match(SILENCE_START_PATTERN)
+    if (startMatch) {
+      // Silence at the very beginning can be reported slightly below 0
+      start = Math.max(0, parseFloat(startMatch[1]))
+      continue
+    }
+
+    const endMatch = line.match(SILENCE_END_PATTERN)
+    if (endMatch && start !== undefined) {
+      silences.push({ start, end: parseFloat(endMatch[1]) })
+      start = undefined
+    }
+  }
+
+  if (start !== undefined && duration !== undefined) {
+    silences.push({ start, end: duration })
+  }
+
+  return silences
+}
+
+// ffmpeg reports durations as HH:MM:SS.ss
+function parseDuration(value: string): number | undefined {
+  const parts = value.split(':').map(Number)
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    return undefined
+  }
+  return parts[0] * 3600 + parts[1] * 60 + parts[2]
+}
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs'
+import * as fs from 'fs/promises'
+import { extname } from 'path'
+import { parseArgs } from 'util'
+import { consola } from 'consola'
+import { getArtifactPath, loadEpisode } from './episode'
+import { parseThreshold } from './silence'
+import {
+  getEditDecisionListPath,
+  stripSilence,
+} from './strip-silence'
+
+const DEFAULT_THRESHOLD = -30 // dB
+const DEFAULT_MIN_DURATION = 1 // seconds of silence
+const DEFAULT_PADDING = 0.2 // seconds
+
+const USAGE = `Usage: pnpm strip-silence <input> [output] [options]
+
+Cuts the silences out of an audio or video file and writes an edit
+decision list of the removed ranges next to the output.
+
+Options:
+  -e, --episode <id>      Cut the episode's video, or its audio when there
+                          is no video
+  -n, --threshold <dB>    Quieter than this counts as silence (default ${DEFAULT_THRESHOLD})
+  -d, --min-duration <s>  Shortest silence to cut (default ${DEFAULT_MIN_DURATION})
+  -p, --padding <s>       Silence kept on each side of a cut (default ${DEFAULT_PADDING})
+      --edl <path>        Where to write the edit decision list
+                          (default: <output>.edl.json)
+  -h, --help              Show this help
+
+The output defaults to <input>_no_silence.<ext>. A negative threshold needs an equals sign (--threshold=-35), or pass
+the magnitude (-n 35).`
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      episode: { type: 'string', short: 'e' },
+      threshold: { type: 'string', short: 'n' },
+      'min-duration': { type: 'string', short: 'd' },
+      padding: { type: 'string', short: 'p' },
+      edl: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const episodeVideo =
+    episode && getArtifactPath(episode, 'video')
+  const inputPath =
+    positionals[0] ??
+    (episodeVideo && existsSync(episodeVideo)
+      ? episodeVideo
+      : episode && getArtifactPath(episode, 'audio'))
+  if (values.help || !inputPath) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const extension = extname(inputPath)
+  const outputPath =
+    positionals[1] ??
+    `${inputPath.slice(
+      0,
+      inputPath.length - extension.length
+    )}_no_silence${extension}`
+
+  const threshold =
+    values.threshold !== undefined
+      ? parseThreshold(values.threshold)
+      : DEFAULT_THRESHOLD
+  const minDuration =
+    values['min-duration'] !== undefined
+      ? parseFloat(values['min-duration'])
+      : DEFAULT_MIN_DURATION
+  const padding =
+    values.padding !== undefined
+      ? parseFloat(values.padding)
+      : DEFAULT_PADDING
+  if ([threshold, minDuration, padding].some(isNaN)) {
+    consola.error(
+      '--threshold, --min-duration and --padding must be numbers'
+    )
+    process.exit(1)
+  }
+  if (minDuration <= 0 || padding < 0) {
+    consola.error(
+      '--min-duration must be positive and --padding not negative'
+    )
+    process.exit(1)
+  }
+
+  consola.start(
+    `Removing silences of ${minDuration}s below ${threshold}dB from ${inputPath}, keeping ${padding}s on each side...`
+  )
+  const edl = await stripSilence(inputPath, outputPath, {
+    threshold,
+    minDuration,
+    padding,
+  })
+
+  const edlPath =
+    values.edl ?? getEditDecisionListPath(outputPath)
+  await fs.writeFile(
+    edlPath,
+    JSON.stringify(edl, null, 2) + '\n',
+    'utf-8'
+  )
+
+  const removedSeconds = edl.removed.reduce(
+    (sum, range) => sum + range.end - range.start,
+    0
+  )
+  consola.success(
+    `Cut ${
+      edl.removed.length
+    } silences (${removedSeconds.toFixed(
+      1
+    )}s) → ${outputPath}, edit list in ${edlPath}`
+  )
+}
+
+main().catch((error: unknown) => {
+  consola.fatal(
+    error instanceof Error ? error.message : String(error)
+  )
+  process.exit(1)
+})
@@ -0,0 +1,213 @@
+import { copyFile } from 'fs/promises'
+import { extname } from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import {
+  detectSilences,
+  SilenceDetectOptions,
+  SilenceInterval,
+} from './silence'
+
+export interface StripSilenceOptions
+  extends SilenceDetectOptions {
+  padding?: number // in seconds of silence kept on each side of a cut
+}
+
+/**
+ * What was cut from a recording, so timestamps taken from the original
+ * can be moved to the shortened file
+ */
+export interface EditDecisionList {
+  source: string
+  duration: number // of the original, in seconds
+  padding: number
+  removed: SilenceInterval[] // in the original's time, sorted
+}
+
+export interface StripSilenceFilter {
+  filter: string
+  outputs: string[] // labels to map into the output
+}
+
+const DEFAULT_PADDING = 0.2
+
+/**
+ * Shrink every silence by `padding` on both sides so speech isn't
+ * clipped, dropping silences that are too short to cut anything. Leading
+ * and trailing silences are cut the same way.
+ */
+export function planRemovedRanges(
+  silences: SilenceInterval[],
+  duration: number,
+  padding: number = DEFAULT_PADDING
+): SilenceInterval[] {
+  const removed: SilenceInterval[] = []
+
+  for (const silence of [...silences].sort(
+    (a, b) => a.start - b.start
+  )) {
+    const start = Math.max(0, silence.start + padding)
+    const end = Math.min(duration, silence.end - padding)
+    if (end <= start) continue
+
+    const previous = removed[removed.length - 1]
+    if (previous && start <= previous.end) {
+      previous.end = Math.max(previous.end, round(end))
+    } else {
+      removed.push({ start: round(start), end: round(end) })
+    }
+  }
+
+  return removed
+}
+
+/**
+ * The parts of a recording that are left between the removed ranges
+ */
+export function getKeptSegments(
+  removed: SilenceInterval[],
+  duration: number
+): SilenceInterval[] {
+  const kept: SilenceInterval[] = []
+  let start = 0
+
+  for (const range of removed) {
+    if (range.start > start) {
+      kept.push({ start, end: range.start })
+    }
+    start = range.end
+  }
+  if (duration > start) {
+    kept.push({ start, end: duration })
+  }
+
+  return kept
+}
+
+/**
+ * Build a trim/concat filter graph that keeps only `segments` of a
+ * recording of `duration` seconds. Video is trimmed alongside the audio
+ * when the input has it.
+ */
+export function buildStripSilenceFilter(
+  segments: SilenceInterval[],
+  duration: number,
+  hasVideo: boolean
+): StripSilenceFilter {
+  const filters: string[] = []
+  const inputs: string[] = []
+
+  segments.forEach((segment, index) => {
+    // A segment that runs to the end has no end, so no trailing frames
+    // are lost to a duration that is slightly off
+    const range =
+      segment.end >= duration
+        ? `start=${segment.start}`
+        : `start=${segment.start}:end=${segment.end}`
+
+    if (hasVideo) {
+      filters.push(
+        `[0:v]trim=${range},setpts=PTS-STARTPTS[v${index}]`
+      )
+      inputs.push(`[v${index}]`)
+    }
+    filters.push(
+      `[0:a]atrim=${range},asetpts=PTS-STARTPTS[a${index}]`
+    )
+    inputs.push(`[a${index}]`)
+  })
+
+  const outputs = hasVideo ? ['outv', 'outa'] : ['outa']
+  filters.push(
+    `${inputs.join('')}concat=n=${segments.length}:v=${
+      hasVideo ? 1 : 0
+    }:a=1${outputs.map((output) => `[${output}]`).join('')}`
+  )
+
+  return { filter: filters.join(';'), outputs }
+}
+
+/**
+ * Where the edit decision list of a shortened file is written:
+ * episode-no-silence.mp4 → episode-no-silence.edl.json
+ */
+export function getEditDecisionListPath(
+  outputPath: string
+): string {
+  return `${outputPath.slice(
+    0,
+    outputPath.length - extname(outputPath).length
+  )}.edl.json`
+}
+
+/**
+ * Cut the silences out of an audio or video file. The codecs are the
+ * output format's defaults. Returns the edit decision list of what was
+ * removed.
+ */
+export async function stripSilence(
+  inputPath: string,
+  outputPath: string,
+  options: StripSilenceOptions = {}
+): Promise<EditDecisionList> {
+  const { padding = DEFAULT_PADDING, ...detectOptions } =
+    options
+  const { duration, hasVideo } = await probeMedia(inputPath)
+  const removed = planRemovedRanges(
+    await detectSilences(inputPath, detectOptions),
+    duration,
+    padding
+  )
+  const edl: EditDecisionList = {
+    source: inputPath,
+    duration,
+    padding,
+    removed,
+  }
+
+  if (removed.length === 0) {
+    await copyFile(inputPath, outputPath)
+    return edl
+  }
+
+  const { filter, outputs } = buildStripSilenceFilter(
+    getKeptSegments(removed, duration),
+    duration,
+    hasVideo
+  )
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(inputPath)
+      .complexFilter(filter, outputs)
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .save(outputPath)
+  })
+
+  return edl
+}
+
+// Cover art in audio files shows up as a video stream, so it doesn't
+// count as video
+function probeMedia(
+  filePath: string
+): Promise<{ duration: number; hasVideo: boolean }> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err) {
+        reject(err)
+        return
+      }
+      resolve({
+        duration: metadata.format.duration || 0,
+        hasVideo: metadata.streams.some(
+          (stream) =>
+            stream.codec_type === 'video' &&
+            stream.disposition?.attached_pic !== 1
+        ),
+      })
+    })
+  })
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
@@ -0,0 +1,255 @@
+import { z } from 'zod'
+import { parseChapterTimestamp } from './chapters-file'
+import type { EditDecisionList } from './strip-silence'
+import type { TranscriptionResponse } from './transcript-merge'
+
+/**
+ * A change to a recording, in the time of the original: a range that
+ * was cut out, or `duration` seconds of new material put in at `at`
+ */
+export type TimelineEdit =
+  | { type: 'remove'; start: number; end: number }
+  | { type: 'insert'; at: number; duration: number }
+
+interface TimedItem {
+  start: number // in seconds
+  end: number // in seconds
+}
+
+const timeRangeSchema = z
+  .object({ start: z.number(), end: z.number() })
+  .refine((range) => range.end >= range.start, {
+    message: 'A range must not end before it starts',
+  })
+
+const editDecisionListSchema = z.object({
+  source: z.string(),
+  duration: z.number().nonnegative(),
+  padding: z.number().nonnegative(),
+  removed: z.array(timeRangeSchema),
+})
+
+/**
+ * Where a moment of the original ends up after the edits. Moments inside
+ * a removed range have no place in the edited recording and return
+ * undefined.
+ */
+export function mapTime(
+  time: number,
+  edits: TimelineEdit[]
+): number | undefined {
+  return shiftTime(time, normalizeEdits(edits), false)
+}
+
+/**
+ * Like mapTime, but moments inside a removed range move to the point
+ * where it was cut
+ */
+export function clampTime(
+  time: number,
+  edits: TimelineEdit[]
+): number {
+  return shiftTime(time, normalizeEdits(edits), true)!
+}
+
+/**
+ * Move cues or words to the edited recording. Anything partly cut is
+ * clipped to what is left of it; anything entirely inside a removed
+ * range is dropped.
+ */
+export function remapCues<T extends TimedItem>(
+  items: T[],
+  edits: TimelineEdit[]
+): T[] {
+  const normalized = normalizeEdits(edits)
+
+  return items.flatMap((item) => {
+    const start = shiftTime(item.start, normalized, true)!
+    const end = shiftTime(item.end, normalized, true)!
+    // Whisper gives some words no length, and those are only lost
+    // when they fall inside a cut
+    const kept =
+      item.end > item.start
+        ? end > start
+        : shiftTime(item.start, normalized, false) !==
+          undefined
+    return kept ? [{ ...item, start, end }] : []
+  })
+}
+
+/**
+ * Move the words and segments of a transcription to the edited
+ * recording, with the text rebuilt from the segments that are left
+ */
+export function remapTranscription(
+  transcription: TranscriptionResponse,
+  edits: TimelineEdit[]
+): TranscriptionResponse {
+  const segments = remapCues(transcription.segments, edits)
+
+  return {
+    text:
+      segments.length > 0
+        ? segments.map((s) => s.text.trim()).join(' ')
+        : transcription.text,
+    words: remapCues(transcription.words, edits),
+    segments,
+  }
+}
+
+/**
+ * Move chapter starts and ends to the edited recording. A chapter that
+ * starts in a removed range starts where it was cut, so no chapter is
+ * lost.
+ */
+export function remapChapters<
+  T extends { startTime?: number; endTime?: number }
+>(chapters: T[], edits: TimelineEdit[]): T[] {
+  const normalized = normalizeEdits(edits)
+
+  return chapters.map((chapter) => {
+    const remapped = { ...chapter }
+    if (chapter.startTime !== undefined) {
+      remapped.startTime = shiftTime(
+        chapter.startTime,
+        normalized,
+        true
+      )
+    }
+    if (chapter.endTime !== undefined) {
+      remapped.endTime = shiftTime(
+        chapter.endTime,
+        normalized,
+        true
+      )
+    }
+    return remapped
+  })
+}
+
+/**
+ * Read the edit decision list written by strip-silence, with a clear
+ * error for a file of another shape
+ */
+export function parseEditDecisionList(
+  content: string,
+  source = 'edit decision list'
+): EditDecisionList {
+  const parsed = editDecisionListSchema.safeParse(
+    JSON.parse(content)
+  )
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid ${source}: ${parsed.error.message}`
+    )
+  }
+  return parsed.data
+}
+
+/**
+ * The removed ranges of a strip-silence run as timeline edits
+ */
+export function editsFromEditDecisionList(
+  edl: EditDecisionList
+): TimelineEdit[] {
+  return edl.removed.map(({ start, end }) => ({
+    type: 'remove',
+    start,
+    end,
+  }))
+}
+
+/**
+ * Parse "START-END" as a removed range and "AT+DURATION" as an
+ * insertion. Times are seconds or MM:SS / HH:MM:SS.
+ */
+export function parseTimelineEdit(
+  spec: string
+): TimelineEdit {
+  const remove = spec.match(/^([^-+]+)-([^-+]+)$/)
+  if (remove) {
+    const start = parseTime(remove[1])
+    const end = parseTime(remove[2])
+    if (end > start) return { type: 'remove', start, end }
+  }
+
+  const insert = spec.match(/^([^-+]+)\+([^-+]+)$/)
+  if (insert) {
+    const at = parseTime(insert[1])
+    const duration = parseTime(insert[2])
+    if (duration > 0) {
+      return { type: 'insert', at, duration }
+    }
+  }
+
+  throw new Error(
+    `Invalid edit "${spec}", expected START-END to remove or AT+DURATION to insert`
+  )
+}
+
+// Sort the edits and merge overlapping removals, so no time is taken
+// out twice
+function normalizeEdits(
+  edits: TimelineEdit[]
+): TimelineEdit[] {
+  const inserts = edits.filter(
+    (edit) => edit.type === 'insert'
+  )
+  const removals: { start: number; end: number }[] = []
+  for (const edit of edits
+    .flatMap((edit) =>
+      edit.type === 'remove' ? [edit] : []
+    )
+    .sort((a, b) => a.start - b.start)) {
+    const previous = removals[removals.length - 1]
+    if (previous && edit.start <= previous.end) {
+      previous.end = Math.max(previous.end, edit.end)
+    } else {
+      removals.push({ start: edit.start, end: edit.end })
+    }
+  }
+
+  return [
+    ...inserts,
+    ...removals.map((range) => ({
+      type: 'remove' as const,
+      ...range,
+    })),
+  ]
+}
+
+function shiftTime(
+  time: number,
+  edits: TimelineEdit[],
+  clamp: boolean
+): number | undefined {
+  let shift = 0
+
+  for (const edit of edits) {
+    if (edit.type === 'insert') {
+      if (time >= edit.at) shift += edit.duration
+    } else if (time >= edit.end) {
+      shift -= edit.end - edit.start
+    } else if (time > edit.start) {
+      if (!clamp) return undefined
+      shift -= time - edit.start
+    }
+  }
+
+  return round(Math.max(0, time + shift))
+}
+
+function parseTime(value: string): number {
+  const trimmed = value.trim()
+  const seconds = /^\d+(\.\d+)?$/.test(trimmed)
+    ? parseFloat(trimmed)
+    : parseChapterTimestamp(trimmed)
+  if (seconds === undefined) {
+    throw new Error(`Invalid time "${value}"`)
+  }
+  return seconds
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
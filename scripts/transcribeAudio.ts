@@ -1,13 +1,57 @@
-import { ofetch } from 'ofetch'
 import 'dotenv/config'
+import { consola } from 'consola'
 import {
-  processFiles,
+  processFilesWithReport,
+  formatProcessReport,
+  planFiles,
+  formatPlan,
+  retryWithBackoff,
   ContentProcessor,
-} from './scripts/fileUtils'
-import ffmpeg from 'fluent-ffmpeg'
-import { join } from 'path'
-import { mkdir, rm, readFile, writeFile } from 'fs/promises'
+} from './fileUtils'
+import { serializeVTT } from './transcript'
+import {
+  mergeWordTranscriptions,
+  TranscriptChunk,
+  TranscriptionResponse,
+} from './transcript-merge'
+import {
+  ChunkManifest,
+  getAudioDuration,
+  needsChunking,
+  splitAudioIntoChunks,
+} from './audio-chunks'
+import {
+  createTranscriptionBackend,
+  isTranscriptionBackendName,
+  TranscriptionBackend,
+  TranscriptionBackendName,
+  TranscriptionRequest,
+  TRANSCRIPTION_BACKENDS,
+} from './transcription-backends'
+import {
+  getArtifactPath,
+  getEpisodeSpeakers,
+  loadEpisode,
+  withEpisodeNames,
+} from './episode'
+import {
+  diarizeByClustering,
+  labelCues,
+  loadSpeakerConfig,
+  nameSpeakers,
+  SpeakerConfig,
+} from './diarization'
+import {
+  buildGlossaryPrompt,
+  correctTranscription,
+  formatCorrectionReport,
+  Glossary,
+  loadGlossary,
+} from './glossary'
+import { basename, join } from 'path'
+import { mkdtemp, rm, readFile } from 'fs/promises'
 import { tmpdir } from 'os'
+import { parseArgs } from 'util'
 
 // Default directories
 const DEFAULT_INPUT_DIR = 'audio'
@@ -29,414 +73,290 @@ const OUTPUT_EXTENSIONS = {
 }
 
 // Default system prompt
-const DEFAULT_SYSTEM_PROMPT =
+export const DEFAULT_SYSTEM_PROMPT =
   'This is a transcript about Vue.js and Nuxt.js, not Next.js. The content may include technical terms related to Vue, Nuxt, JavaScript, and web development.'
 
-// Constants for audio processing
-const MAX_FILE_SIZE = 25 * 1024 * 1024 // 25MB in bytes
-const SEGMENT_DURATION = 10 * 60 * 1000 // 10 minutes in milliseconds
-const SEGMENT_OVERLAP = 20 * 1000 // 10 seconds in milliseconds
+// Files transcribed at the same time, and retries per request on
+// rate limits or server errors
+const CONCURRENCY = 2
+const MAX_RETRIES = 3
+const RETRY_DELAY = 2000 // in ms, doubled after every attempt
 
-interface Word {
-  word: string
-  start: number
-  end: number
-}
+const LOCAL_BACKENDS: TranscriptionBackendName[] = [
+  'whisper-cpp',
+  'faster-whisper',
+]
 
-interface TranscriptionResponse {
-  text: string
-  words: Word[]
-  segments: {
-    id: number
-    start: number
-    end: number
-    text: string
-  }[]
+// USD per audio minute, for dry-run estimates
+const TRANSCRIPTION_PRICES: Record<string, number> = {
+  'whisper-1': 0.006,
+  'gpt-4o-transcribe': 0.006,
+  'gpt-4o-mini-transcribe': 0.003,
 }
 
-async function splitAudioFile(
-  audioBuffer: Buffer
-): Promise<string[]> {
-  const tempDir = join(tmpdir(), 'audio-segments')
-  await mkdir(tempDir, { recursive: true })
-
-  const inputPath = join(tempDir, 'input.mp3')
-  const outputPath = join(tempDir, 'segment-%d.mp3')
-
-  // Write the input buffer to a temporary file
-  await writeFile(inputPath, audioBuffer)
-
-  return new Promise((resolve, reject) => {
-    const segments: string[] = []
-    let segmentIndex = 0
-    let currentTime = 0
-
-    // First, get the total duration of the audio file
-    ffmpeg.ffprobe(inputPath, async (err, metadata) => {
-      if (err) {
-        await rm(inputPath, { force: true })
-        reject(err)
-        return
-      }
-
-      const duration = metadata.format.duration || 0
-
-      // Create segments with overlap
-      while (currentTime < duration) {
-        const segmentPath = outputPath.replace(
-          '%d',
-          segmentIndex.toString()
-        )
-        segments.push(segmentPath)
-
-        // Calculate start time with overlap
-        const startTime = Math.max(
-          0,
-          currentTime - SEGMENT_OVERLAP / 1000
-        )
-
-        // Create the segment
-        await new Promise<void>(
-          (resolveSegment, rejectSegment) => {
-            ffmpeg(inputPath)
-              .setStartTime(startTime)
-              .setDuration(SEGMENT_DURATION / 1000)
-              .output(segmentPath)
-              .on('end', () => resolveSegment())
-              .on('error', (err) => rejectSegment(err))
-              .run()
-          }
-        )
-
-        currentTime += SEGMENT_DURATION / 1000
-        segmentIndex++
-      }
-
-      // Clean up the input file
-      await rm(inputPath)
-      resolve(segments)
-    })
-  })
+interface TranscribeOptions extends TranscriptionRequest {
+  format: 'vtt' | 'json'
+  speakers?: SpeakerConfig // to tag VTT cues with speaker names
+  glossary?: Glossary // for the prompt and to correct the result
 }
 
 async function transcribeAudio(
-  audioBuffer: Buffer,
-  apiKey: string,
-  model: string = 'whisper-1',
-  language: string = 'en',
-  format: 'vtt' | 'json' = 'vtt',
-  prompt: string = DEFAULT_SYSTEM_PROMPT
+  inputPath: string,
+  backend: TranscriptionBackend,
+  options: TranscribeOptions
 ): Promise<string> {
-  // If file is small enough, process it directly
-  if (audioBuffer.length <= MAX_FILE_SIZE) {
-    return await transcribeAudioSegment(
-      audioBuffer,
-      apiKey,
+  const { model, language, prompt, glossary } = options
+  const transcription = await transcribeAudioFile(
+    inputPath,
+    backend,
+    {
       model,
       language,
-      format,
-      prompt
-    )
-  }
-
-  // Split the audio file into segments
-  console.log('Splitting large audio file into segments...')
-  const segments = await splitAudioFile(audioBuffer)
-
-  // Transcribe each segment
-  const transcriptions: string[] = []
-  let previousTranscription = ''
-
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i]
-    const segmentBuffer = await readFile(segment)
-
-    // For subsequent segments, append part of the previous transcription to help with context
-    let segmentPrompt = prompt
-    if (i > 0 && previousTranscription) {
-      // Get the last portion of the previous transcription to provide context
-      const previousText =
-        format === 'json'
-          ? JSON.parse(previousTranscription).text
-          : extractTextFromVTT(previousTranscription)
-
-      // Only use the last part of the text to stay within token limits
-      const contextText = previousText
-        .split(' ')
-        .slice(-50)
-        .join(' ')
-      segmentPrompt = `${prompt} Previous context: ${contextText}`
+      prompt: glossary
+        ? buildGlossaryPrompt(prompt ?? '', glossary)
+        : prompt,
     }
-
-    const transcription = await transcribeAudioSegment(
-      segmentBuffer,
-      apiKey,
-      model,
-      language,
-      format,
-      segmentPrompt
+  )
+  if (!glossary) {
+    return formatTranscription(
+      inputPath,
+      transcription,
+      options
     )
-
-    previousTranscription = transcription
-    transcriptions.push(transcription)
   }
 
-  // Combine transcriptions
-  if (format === 'vtt') {
-    return combineVTTTranscriptions(transcriptions)
-  } else {
-    return combineJSONTranscriptions(transcriptions)
-  }
+  const corrected = correctTranscription(
+    transcription,
+    glossary
+  )
+  console.log(
+    `${basename(inputPath)}: ${formatCorrectionReport(
+      corrected.substitutions
+    )}`
+  )
+  return formatTranscription(
+    inputPath,
+    corrected.transcription,
+    options
+  )
 }
 
-// Helper to extract text from VTT format
-function extractTextFromVTT(vtt: string): string {
-  const lines = vtt.split('\n')
-  let text = ''
-
-  for (let i = 0; i < lines.length; i++) {
-    // Skip headers, timestamps, and empty lines
-    if (
-      !lines[i].includes('-->') &&
-      !lines[i].match(/^WEBVTT/) &&
-      lines[i].trim() !== '' &&
-      !lines[i].match(/^\d\d:/)
-    ) {
-      text += ' ' + lines[i].trim()
-    }
+/**
+ * Transcribe one recording into words and segments, splitting it into
+ * chunks first when it is too long for a single request
+ */
+export async function transcribeAudioFile(
+  inputPath: string,
+  backend: TranscriptionBackend,
+  request: TranscriptionRequest
+): Promise<TranscriptionResponse> {
+  // If the file fits in one request, send it as it is
+  if (!(await needsChunking(inputPath))) {
+    return transcribeSegmentWithRetries(
+      backend,
+      inputPath,
+      request
+    )
   }
-
-  return text.trim()
+  return transcribeInChunks(inputPath, backend, request)
 }
 
-async function transcribeAudioSegment(
-  audioBuffer: Buffer,
-  apiKey: string,
-  model: string,
-  language: string,
-  format: 'vtt' | 'json',
-  prompt: string
-): Promise<string> {
-  const formData = new FormData()
-  formData.append(
-    'file',
-    new Blob([audioBuffer], { type: 'audio/mpeg' }),
-    'audio.mp3'
+async function transcribeInChunks(
+  inputPath: string,
+  backend: TranscriptionBackend,
+  request: TranscriptionRequest
+): Promise<TranscriptionResponse> {
+  // A directory per file, since several files can be split at once
+  const chunkDir = await mkdtemp(
+    join(tmpdir(), 'audio-chunks-')
   )
-  formData.append('model', model)
-  formData.append('language', language)
-
-  // Add prompt if provided
-  if (prompt) {
-    formData.append('prompt', prompt)
-  }
-
-  if (format === 'vtt') {
-    formData.append('response_format', 'vtt')
-  } else {
-    formData.append('response_format', 'verbose_json')
-    formData.append('timestamp_granularities[]', 'word')
-  }
-
   try {
     console.log(
-      `Transcribing audio segment (${(
-        audioBuffer.length /
-        1024 /
-        1024
-      ).toFixed(2)}MB)...`
+      'Splitting long audio file at pauses into chunks...'
+    )
+    const manifest = await splitAudioIntoChunks(
+      inputPath,
+      chunkDir
+    )
+    return await transcribeChunks(
+      manifest,
+      backend,
+      request
     )
+  } finally {
+    await rm(chunkDir, { recursive: true, force: true })
+  }
+}
 
-    if (format === 'vtt') {
-      const response = await ofetch(
-        'https://api.openai.com/v1/audio/transcriptions',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: formData,
-        }
-      )
-      return response
-    } else {
-      const response = await ofetch<TranscriptionResponse>(
-        'https://api.openai.com/v1/audio/transcriptions',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: formData,
-        }
-      )
-      return JSON.stringify(response, null, 2)
+/**
+ * Transcribe the chunks of a recording one after another, each with the
+ * end of the previous one as context, and merge them into one
+ */
+export async function transcribeChunks(
+  manifest: ChunkManifest,
+  backend: TranscriptionBackend,
+  { model, language, prompt }: TranscriptionRequest
+): Promise<TranscriptionResponse> {
+  const transcriptions: TranscriptChunk<TranscriptionResponse>[] =
+    []
+
+  for (const chunk of manifest.chunks) {
+    // For subsequent chunks, append part of the previous transcription to help with context
+    let chunkPrompt = prompt
+    const previous =
+      transcriptions[transcriptions.length - 1]
+    if (previous) {
+      // Only use the last part of the text to stay within token limits
+      const contextText = previous.transcription.text
+        .split(' ')
+        .slice(-50)
+        .join(' ')
+      chunkPrompt = [
+        prompt,
+        `Previous context: ${contextText}`,
+      ]
+        .filter(Boolean)
+        .join(' ')
     }
-  } catch (error: any) {
-    console.error('Transcription error details:', {
-      status: error.status,
-      statusText: error.statusText,
-      data: error.data,
-      message: error.message,
-    })
 
-    if (error.status === 400) {
-      throw new Error(
-        `Bad Request: ${
-          error.data?.error?.message || error.message
-        }`
-      )
-    } else if (error.status === 401) {
-      throw new Error(
-        'Authentication failed. Please check your API key.'
-      )
-    } else if (error.status === 429) {
-      throw new Error(
-        'Rate limit exceeded. Please try again later.'
-      )
-    } else {
-      throw new Error(
-        `Transcription failed: ${error.message}`
-      )
-    }
+    transcriptions.push({
+      offset: chunk.start,
+      transcription: await transcribeSegmentWithRetries(
+        backend,
+        chunk.path,
+        { model, language, prompt: chunkPrompt }
+      ),
+    })
   }
-}
 
-function parseVTTTimestamp(timestamp: string): number {
-  const [hours, minutes, seconds] = timestamp
-    .split(':')
-    .map(Number)
-  return hours * 3600 + minutes * 60 + seconds
+  // Combine transcriptions, keeping the overlapping audio only once
+  return mergeWordTranscriptions(transcriptions)
 }
 
-function formatVTTTimestamp(seconds: number): string {
-  const hours = Math.floor(seconds / 3600)
-  const minutes = Math.floor((seconds % 3600) / 60)
-  const remainingSeconds = seconds % 60
-  return `${hours.toString().padStart(2, '0')}:${minutes
-    .toString()
-    .padStart(2, '0')}:${remainingSeconds
-    .toFixed(3)
-    .padStart(6, '0')}`
-}
-
-function combineVTTTranscriptions(
-  transcriptions: string[]
-): string {
-  let combined = ''
-  let timeOffset = 0
-
-  for (let i = 0; i < transcriptions.length; i++) {
-    const transcription = transcriptions[i]
-    const lines = transcription.split('\n')
-
-    // Keep the WEBVTT header only for the first segment
-    if (i === 0) {
-      combined += lines[0] + '\n\n'
-      lines.shift() // Remove WEBVTT header
-      lines.shift() // Remove empty line after header
-    }
-
-    // Process each cue
-    let currentCue = ''
-    for (const line of lines) {
-      if (line.trim() === '') {
-        if (currentCue) {
-          // Parse and adjust timestamps in the cue
-          const timestampMatch = currentCue.match(
-            /(\d{2}:\d{2}:\d{2}\.\d{3}) --> (\d{2}:\d{2}:\d{2}\.\d{3})/
-          )
-          if (timestampMatch) {
-            const startTime =
-              parseVTTTimestamp(timestampMatch[1]) +
-              timeOffset
-            const endTime =
-              parseVTTTimestamp(timestampMatch[2]) +
-              timeOffset
-
-            // Only include the cue if it's not in the overlap region (except for the first segment)
-            if (
-              i === 0 ||
-              startTime >=
-                timeOffset + SEGMENT_OVERLAP / 1000
-            ) {
-              const adjustedCue = currentCue.replace(
-                timestampMatch[0],
-                `${formatVTTTimestamp(
-                  startTime
-                )} --> ${formatVTTTimestamp(endTime)}`
-              )
-              combined += adjustedCue.trim() + '\n\n'
-            }
-          }
-          currentCue = ''
-        }
-      } else {
-        currentCue += line + '\n'
-      }
-    }
+// Every backend returns words and segments; VTT cues are the segments,
+// tagged with speakers when the speakers are known
+async function formatTranscription(
+  inputPath: string,
+  transcription: TranscriptionResponse,
+  { format, speakers }: TranscribeOptions
+): Promise<string> {
+  if (format === 'json') {
+    return JSON.stringify(transcription, null, 2)
+  }
 
-    // Update time offset for next segment
-    timeOffset +=
-      SEGMENT_DURATION / 1000 - SEGMENT_OVERLAP / 1000
+  const cues = transcription.segments.map((segment) => ({
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+  }))
+  if (!speakers) {
+    return serializeVTT(cues)
   }
 
-  return combined.trim()
+  const names = speakers.speakers.map(
+    (speaker) => speaker.name
+  )
+  console.log(`Telling apart ${names.join(', ')}...`)
+  const turns = await diarizeByClustering(
+    inputPath,
+    cues,
+    names.length
+  )
+  return serializeVTT(
+    labelCues(cues, nameSpeakers(turns, names))
+  )
 }
 
-function combineJSONTranscriptions(
-  transcriptions: string[]
-): string {
-  const combined: TranscriptionResponse = {
-    text: '',
-    words: [],
-    segments: [],
-  }
-
-  let timeOffset = 0
-  for (const transcription of transcriptions) {
-    const data = JSON.parse(
-      transcription
-    ) as TranscriptionResponse
+// Retry a single segment on rate limits and server errors, rather than
+// starting the whole file over
+function transcribeSegmentWithRetries(
+  backend: TranscriptionBackend,
+  audioPath: string,
+  request: TranscriptionRequest
+): Promise<TranscriptionResponse> {
+  return retryWithBackoff(
+    () => backend.transcribe(audioPath, request),
+    {
+      retries: MAX_RETRIES,
+      retryDelay: RETRY_DELAY,
+      onRetry: (error, attempt, delay) => {
+        console.warn(
+          `Segment attempt ${attempt} failed (${
+            (error as Error).message
+          }), retrying in ${delay}ms...`
+        )
+      },
+    }
+  )
+}
 
-    // Combine text
-    combined.text += data.text + ' '
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      backend: {
+        type: 'string',
+        default:
+          process.env.TRANSCRIPTION_BACKEND || 'openai',
+      },
+      'base-url': { type: 'string' },
+      // Transcribe one episode's audio instead of a directory
+      episode: { type: 'string' },
+      // Speaker config whose names tag the VTT cues
+      speakers: { type: 'string' },
+      // Glossary files, glossary.json by default
+      glossary: { type: 'string', multiple: true },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  })
 
-    // Combine words with adjusted timestamps
-    combined.words.push(
-      ...data.words.map((word) => ({
-        ...word,
-        start: word.start + timeOffset,
-        end: word.end + timeOffset,
-      }))
+  const backendName = values.backend as string
+  if (!isTranscriptionBackendName(backendName)) {
+    console.error(
+      `Error: backend must be one of ${TRANSCRIPTION_BACKENDS.join(
+        ', '
+      )}`
     )
-
-    // Combine segments with adjusted timestamps
-    combined.segments.push(
-      ...data.segments.map((segment) => ({
-        ...segment,
-        start: segment.start + timeOffset,
-        end: segment.end + timeOffset,
-      }))
+    process.exit(1)
+  }
+  if (
+    backendName === 'openai' &&
+    !process.env.OPENAI_API_KEY &&
+    !values['dry-run']
+  ) {
+    console.error(
+      'Error: OPENAI_API_KEY environment variable is not set'
     )
-
-    // Update time offset for next segment
-    timeOffset = data.segments[data.segments.length - 1].end
+    process.exit(1)
   }
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  const glossary = episode
+    ? withEpisodeNames(
+        await loadGlossary(values.glossary),
+        episode
+      )
+    : await loadGlossary(values.glossary)
+  const speakers = values.speakers
+    ? await loadSpeakerConfig(values.speakers)
+    : episode && getEpisodeSpeakers(episode)
+  const backend = createTranscriptionBackend(backendName, {
+    baseURL: values['base-url'],
+  })
 
-  return JSON.stringify(combined, null, 2)
-}
-
-async function main() {
-  const args = process.argv.slice(2)
+  // An episode only takes the transcription settings
   const [
     inputDir = DEFAULT_INPUT_DIR,
     outputDir = DEFAULT_OUTPUT_DIR,
-    model = 'whisper-1',
+    model = backend.defaultModel,
     language = 'en',
     format = 'vtt',
     prompt = DEFAULT_SYSTEM_PROMPT,
-  ] = args
+  ] = episode
+    ? [undefined, undefined, ...positionals]
+    : positionals
 
   // Validate format
   if (format !== 'vtt' && format !== 'json') {
@@ -446,47 +366,122 @@ async function main() {
     process.exit(1)
   }
 
-  // Get API key from environment variable
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    console.error(
-      'Error: OPENAI_API_KEY environment variable is not set'
+  // An episode transcribes its audio artifact into its transcript
+  const input = episode
+    ? getArtifactPath(episode, 'audio')
+    : inputDir
+  const fileOptions = {
+    ...(episode
+      ? {
+          outputDir: episode.dir,
+          fileFilter: () => true,
+          outputPath: () =>
+            getArtifactPath(
+              episode,
+              format === 'vtt'
+                ? 'transcript'
+                : 'transcriptJson'
+            ),
+        }
+      : {
+          outputDir,
+          fileFilter: AUDIO_EXTENSIONS,
+          recursive: true,
+          outputExtension:
+            OUTPUT_EXTENSIONS[
+              format as keyof typeof OUTPUT_EXTENSIONS
+            ],
+        }),
+    // Rerun a file when the audio or any transcription setting changes
+    cacheKey: () => ({
+      backend: backendName,
+      model,
+      language,
+      format,
+      prompt,
+      speakers: speakers?.speakers.map((s) => s.name),
+      glossary: glossary.entries,
+    }),
+  }
+
+  // Show what would be transcribed and roughly what it costs, without
+  // transcribing or writing anything
+  if (values['dry-run']) {
+    const plan = await planFiles(input, {
+      ...fileOptions,
+      estimate: async (inputPath) => {
+        const audioMinutes =
+          (await getAudioDuration(inputPath)) / 60
+        return {
+          audioMinutes,
+          usd:
+            backendName === 'openai' &&
+            TRANSCRIPTION_PRICES[model] !== undefined
+              ? audioMinutes * TRANSCRIPTION_PRICES[model]
+              : undefined,
+        }
+      },
+    })
+    console.log(
+      values.json
+        ? JSON.stringify(plan, null, 2)
+        : formatPlan(plan)
     )
-    process.exit(1)
+    return
   }
 
   console.log(`Using system prompt: "${prompt}"`)
 
   const audioProcessor: ContentProcessor<string> = {
-    process: async (content, metadata) => {
+    process: async (_content, metadata) => {
       return await transcribeAudio(
-        content as Buffer,
-        apiKey,
-        model,
-        language,
-        format as 'vtt' | 'json',
-        prompt
+        metadata.inputPath,
+        backend,
+        {
+          model,
+          language,
+          format: format as 'vtt' | 'json',
+          prompt,
+          speakers,
+          glossary:
+            glossary.entries.length > 0
+              ? glossary
+              : undefined,
+        }
       )
     },
   }
 
-  try {
-    await processFiles<string>(inputDir, {
-      outputDir,
+  const report = await processFilesWithReport<string>(
+    input,
+    {
+      ...fileOptions,
       processor: audioProcessor,
-      fileFilter: AUDIO_EXTENSIONS,
-      readAsBuffer: true,
-      recursive: true,
-      outputExtension:
-        OUTPUT_EXTENSIONS[
-          format as keyof typeof OUTPUT_EXTENSIONS
-        ],
-    })
-    console.log('Transcription completed successfully!')
-  } catch (error) {
-    console.error('Error during transcription:', error)
+      // Long files are split from disk, so only the path is needed
+      skipContent: true,
+      // Local models already use every core for one file
+      concurrency: LOCAL_BACKENDS.includes(backendName)
+        ? 1
+        : CONCURRENCY,
+      onProgress: ({ completed, total, status }) => {
+        if (status !== 'retrying') {
+          console.log(`[${completed}/${total}]`)
+        }
+      },
+    }
+  )
+  console.log(formatProcessReport(report))
+  if (report.failed.length > 0) {
     process.exit(1)
   }
+  console.log('Transcription completed successfully!')
 }
 
-main()
+if (require.main === module) {
+  main().catch((error: unknown) => {
+    consola.fatal(
+      error instanceof Error ? error.message : String(error)
+    )
+    process.exit(1)
+  })
+}
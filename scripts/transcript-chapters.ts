@@ -1,9 +1,22 @@
 import { generateText, generateObject } from 'ai'
-import { openai } from '@ai-sdk/openai'
 import { z } from 'zod'
-import { extractSpeakerChanges } from './extract-speaker-changes'
+import { getModel } from './models'
+import { getSpeakerChanges } from './extract-speaker-changes'
 import type { SpeakerChange } from './extract-speaker-changes'
-import { format } from 'path'
+import {
+  buildBoundaryCandidates,
+  snapChapters,
+  SnapOptions,
+  SnapResult,
+} from './chapter-snapping'
+import { detectSilences, SilenceInterval } from './silence'
+import {
+  isVTT,
+  parseVTT,
+  readTranscriptCues,
+  serializeVTT,
+  TranscriptCue,
+} from './transcript'
 
 export type { SpeakerChange }
 
@@ -13,8 +26,51 @@ export interface Chapter {
   startTime?: number // in seconds
   endTime?: number // in seconds
   number?: number
+  searchRange?: TimeRange // where to look for the start, if known
+}
+
+export interface TimeRange {
+  start: number // in seconds
+  end: number // in seconds
 }
 
+/**
+ * How chapters are detected:
+ * - full: the whole transcript goes into every prompt
+ * - windowed: topics are detected per time window and each boundary is
+ *   located using only the cues of its window
+ * - structured: one call returns titles and start breakpoints together,
+ *   falling back to the full strategy if the result doesn't validate
+ */
+export type ChapterStrategy =
+  | 'full'
+  | 'windowed'
+  | 'structured'
+
+export interface Breakpoint {
+  id: number
+  timestamp: number // in seconds
+  kind: 'speaker' | 'cue'
+  speaker?: string
+}
+
+export interface TranscriptWindow extends TimeRange {
+  index: number
+  cues: TranscriptCue[]
+}
+
+interface WindowTopic {
+  title: string
+  summary: string
+  windowIndex: number
+}
+
+const DEFAULT_WINDOW_SECONDS = 15 * 60
+// Extra context around a window when locating a boundary in it
+const WINDOW_PADDING_SECONDS = 60
+// Below this many speaker changes, cue starts are offered as breakpoints
+const MIN_WINDOW_BREAKPOINTS = 3
+
 /**
  * Splits a transcript into logical chapters based on content
  */
@@ -40,7 +96,7 @@ ${transcript}
 Create at most ${maxChapters} chapters. Each chapter should have a descriptive title that summarizes the main topic.`
 
   const { text } = await generateText({
-    model: openai.responses('gpt-4.1'),
+    model: getModel('chapters'),
     prompt,
     temperature: 0.3,
     maxTokens: 2000,
@@ -79,10 +135,9 @@ export async function findChapterTimestamps(
     }
   }
 
-  // For subsequent chapters, set minimum start time to be previous chapter + 30 seconds
-  // if not otherwise determined
+  // Subsequent chapters start at least 60 seconds after the previous one
   const previousStartTime = previousChapter.startTime || 0
-  const minimumStartTime = previousStartTime + 60 // Minimum 60-second increment
+  const minimumStartTime = previousStartTime + 60
 
   // If we have speaker changes, find a suitable change point
   let potentialBreakpoints: SpeakerChange[] =
@@ -96,6 +151,11 @@ export async function findChapterTimestamps(
     )
   }
 
+  // Without a usable answer, the first eligible breakpoint is still a
+  // real turn in the conversation, unlike a fixed offset
+  const fallbackStartTime =
+    potentialBreakpoints[0]?.timestamp ?? minimumStartTime
+
   // Reformat all the timestamps
   const formattedPotentialBreakpoints =
     potentialBreakpoints.map((change) => ({
@@ -138,7 +198,7 @@ Your task is to analyze the transcript and provide the exact timestamp where thi
       reasoning: string
       startTime: string
     }>({
-      model: openai.responses('gpt-4.1'),
+      model: getModel('timestamps'),
       prompt,
       schema: z.object({
         reasoning: z.string(),
@@ -154,9 +214,9 @@ Your task is to analyze the transcript and provide the exact timestamp where thi
     // Sanity check: ensure the timestamp is after the previous chapter
     if (!startTime || startTime <= previousStartTime) {
       console.warn(
-        `Invalid timestamp ${result.object.startTime} for "${chapter.title}", using minimum time`
+        `Invalid timestamp ${result.object.startTime} for "${chapter.title}", using the first breakpoint`
       )
-      startTime = minimumStartTime
+      startTime = fallbackStartTime
     }
 
     // Log successful parsing for debugging
@@ -174,14 +234,476 @@ Your task is to analyze the transcript and provide the exact timestamp where thi
     }
   } catch (error) {
     console.error('Failed to generate timestamp:', error)
-    // Default to minimum start time in case of error
+    // Default to the first breakpoint in case of error
     return {
       ...chapter,
-      startTime: minimumStartTime,
+      startTime: fallbackStartTime,
     }
   }
 }
 
+/**
+ * Split cues into consecutive windows of roughly `windowSeconds` each.
+ * Windows always end on a cue boundary.
+ */
+export function splitCuesIntoWindows(
+  cues: TranscriptCue[],
+  windowSeconds: number = DEFAULT_WINDOW_SECONDS
+): TranscriptWindow[] {
+  const windows: TranscriptWindow[] = []
+
+  for (const cue of cues) {
+    const current = windows[windows.length - 1]
+    if (
+      current &&
+      cue.start < current.start + windowSeconds
+    ) {
+      current.cues.push(cue)
+      current.end = Math.max(current.end, cue.end)
+      continue
+    }
+
+    windows.push({
+      index: windows.length,
+      start: current ? cue.start : 0,
+      end: cue.end,
+      cues: [cue],
+    })
+  }
+
+  // Fold a short tail into the window before it
+  const last = windows[windows.length - 1]
+  if (
+    windows.length > 1 &&
+    last.end - last.start < windowSeconds / 3
+  ) {
+    const previous = windows[windows.length - 2]
+    previous.cues.push(...last.cues)
+    previous.end = Math.max(previous.end, last.end)
+    windows.pop()
+  }
+
+  return windows
+}
+
+/**
+ * Detects the topics of each window, then merges them into at most
+ * `maxChapters` chapters. Only one window is sent per prompt.
+ */
+export async function splitTranscriptIntoChaptersWindowed(
+  windows: TranscriptWindow[],
+  maxChapters: number = 5
+): Promise<Chapter[]> {
+  const topics: WindowTopic[] = []
+
+  for (const window of windows) {
+    const previousTopic = topics[topics.length - 1]
+    const windowTopics = await detectWindowTopics(
+      window,
+      previousTopic,
+      Math.max(
+        2,
+        Math.ceil((maxChapters * 1.5) / windows.length)
+      )
+    )
+
+    windowTopics.forEach((topic, index) => {
+      // A topic running on from the previous window is not a new chapter
+      if (
+        index === 0 &&
+        topic.continuesPreviousTopic &&
+        previousTopic
+      ) {
+        previousTopic.summary += ` ${topic.summary}`
+        return
+      }
+      topics.push({
+        title: topic.title,
+        summary: topic.summary,
+        windowIndex: window.index,
+      })
+    })
+  }
+
+  const selectedTopics = await mergeWindowTopics(
+    topics,
+    maxChapters
+  )
+
+  return selectedTopics.map((topic, index) => {
+    const window = windows[topic.windowIndex]
+    return {
+      title: topic.title,
+      content: topic.summary,
+      number: index + 1,
+      searchRange: {
+        start: Math.max(
+          0,
+          window.start - WINDOW_PADDING_SECONDS
+        ),
+        end: window.end + WINDOW_PADDING_SECONDS,
+      },
+    }
+  })
+}
+
+/**
+ * Ask the model which topics come up in one window of the transcript
+ */
+async function detectWindowTopics(
+  window: TranscriptWindow,
+  previousTopic: WindowTopic | undefined,
+  maxTopics: number
+): Promise<
+  {
+    title: string
+    summary: string
+    continuesPreviousTopic: boolean
+  }[]
+> {
+  const prompt = `<transcript_window start="${formatSecondsToTimeString(
+    window.start
+  )}" end="${formatSecondsToTimeString(window.end)}">
+${serializeVTT(window.cues)}
+</transcript_window>
+
+${
+  previousTopic
+    ? `<previous_topic>
+Title: "${previousTopic.title}"
+Summary: ${previousTopic.summary}
+</previous_topic>
+`
+    : ''
+}
+<instructions>
+This is one part of a longer podcast transcript. List the topics discussed in this part, in order, where the topic changes or new concepts are introduced.
+
+1. Create at most ${maxTopics} topics
+2. Give each topic a descriptive title and a one sentence summary
+3. Set continuesPreviousTopic to true only for a first topic that carries on the <previous_topic>
+</instructions>`
+
+  const result = await generateObject({
+    model: getModel('chapters'),
+    prompt,
+    schema: z.object({
+      topics: z.array(
+        z.object({
+          title: z.string(),
+          summary: z.string(),
+          continuesPreviousTopic: z.boolean(),
+        })
+      ),
+    }),
+  })
+
+  return result.object.topics
+}
+
+/**
+ * Reduce the detected topics to at most `maxChapters` by letting the
+ * model pick where chapters start, based on titles and summaries only
+ */
+async function mergeWindowTopics(
+  topics: WindowTopic[],
+  maxChapters: number
+): Promise<WindowTopic[]> {
+  if (topics.length <= maxChapters) {
+    return topics
+  }
+
+  const prompt = `<topics>
+${topics
+  .map(
+    (topic, index) =>
+      `${index}. ${topic.title}: ${topic.summary}`
+  )
+  .join('\n')}
+</topics>
+
+<instructions>
+These are the topics of a podcast episode, in order. Group consecutive topics into at most ${maxChapters} chapters.
+
+1. For each chapter, return the number of the topic it starts with and a descriptive title
+2. The first chapter must start with topic 0
+3. Chapters must be in order
+</instructions>`
+
+  try {
+    const result = await generateObject({
+      model: getModel('chapters'),
+      prompt,
+      schema: z.object({
+        chapters: z.array(
+          z.object({
+            title: z.string(),
+            firstTopic: z.number().int(),
+          })
+        ),
+      }),
+    })
+
+    const chapters = result.object.chapters
+      .filter(
+        (chapter, index, all) =>
+          chapter.firstTopic >= 0 &&
+          chapter.firstTopic < topics.length &&
+          (index === 0 ||
+            chapter.firstTopic > all[index - 1].firstTopic)
+      )
+      .slice(0, maxChapters)
+
+    if (chapters.length > 0) {
+      return chapters.map((chapter, index) => {
+        const lastTopic =
+          index + 1 < chapters.length
+            ? chapters[index + 1].firstTopic
+            : topics.length
+        return {
+          title: chapter.title,
+          summary: topics
+            .slice(chapter.firstTopic, lastTopic)
+            .map((topic) => topic.summary)
+            .join(' '),
+          windowIndex:
+            topics[chapter.firstTopic].windowIndex,
+        }
+      })
+    }
+  } catch (error) {
+    console.error('Failed to merge window topics:', error)
+  }
+
+  // Fall back to evenly spaced topics
+  const step = topics.length / maxChapters
+  return Array.from(
+    { length: maxChapters },
+    (_, index) => topics[Math.floor(index * step)]
+  )
+}
+
+/**
+ * Finds the timestamp of a chapter using only the cues in its
+ * `searchRange`, instead of the full transcript
+ */
+export async function findChapterTimestampInWindow(
+  chapter: Chapter,
+  cues: TranscriptCue[],
+  previousChapter?: Chapter,
+  speakerChanges?: SpeakerChange[]
+): Promise<Chapter> {
+  const range = chapter.searchRange
+  if (!range || !previousChapter) {
+    return findChapterTimestamps(
+      chapter,
+      serializeVTT(cues),
+      previousChapter,
+      speakerChanges
+    )
+  }
+
+  const isInRange = (time: number) =>
+    time >= range.start && time <= range.end
+  const windowCues = cues.filter((cue) =>
+    isInRange(cue.start)
+  )
+
+  // Fall back to cue starts when few people talk in this window
+  let breakpoints = (speakerChanges || []).filter(
+    (change) => isInRange(change.timestamp)
+  )
+  if (breakpoints.length < MIN_WINDOW_BREAKPOINTS) {
+    breakpoints = windowCues.map((cue) => ({
+      timestamp: cue.start,
+      speaker: cue.speaker || '',
+    }))
+  }
+
+  return findChapterTimestamps(
+    chapter,
+    serializeVTT(windowCues),
+    previousChapter,
+    breakpoints
+  )
+}
+
+/**
+ * Number every candidate chapter start: speaker changes plus the start
+ * of every cue, in time order
+ */
+export function buildBreakpoints(
+  cues: TranscriptCue[],
+  speakerChanges: SpeakerChange[] = []
+): Breakpoint[] {
+  const byTimestamp = new Map<
+    number,
+    Omit<Breakpoint, 'id'>
+  >()
+
+  for (const cue of cues) {
+    byTimestamp.set(cue.start, {
+      timestamp: cue.start,
+      kind: 'cue',
+    })
+  }
+  // Speaker changes win over plain cue starts at the same time
+  for (const change of speakerChanges) {
+    byTimestamp.set(change.timestamp, {
+      timestamp: change.timestamp,
+      kind: 'speaker',
+      speaker: change.speaker,
+    })
+  }
+
+  return [...byTimestamp.values()]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((breakpoint, id) => ({ id, ...breakpoint }))
+}
+
+/**
+ * Generates chapter titles and start times in a single call. The model
+ * picks each start from a numbered list of breakpoints.
+ * Throws if the result is not usable.
+ */
+export async function generateChaptersWithTimestamps(
+  transcript: string,
+  breakpoints: Breakpoint[],
+  duration: number,
+  maxChapters: number = 5
+): Promise<Chapter[]> {
+  if (breakpoints.length === 0) {
+    throw new Error(
+      'No breakpoints to choose chapter starts from'
+    )
+  }
+
+  const prompt = `<transcript>
+${transcript}
+</transcript>
+
+<breakpoints>
+${breakpoints
+  .map(
+    (breakpoint) =>
+      `${breakpoint.id}. ${formatSecondsToTimeString(
+        breakpoint.timestamp
+      )}${
+        breakpoint.speaker
+          ? ` (${breakpoint.speaker} starts speaking)`
+          : ''
+      }`
+  )
+  .join('\n')}
+</breakpoints>
+
+<instructions>
+Split the transcript into logical chapters. Identify natural breaking points where the topic changes or new concepts are introduced.
+
+1. Create at most ${maxChapters} chapters, in order
+2. Give each chapter a descriptive title that summarizes the main topic
+3. For each chapter, choose the breakpoint ID from <breakpoints> where the topic begins
+4. The first chapter starts at breakpoint ${
+    breakpoints[0].id
+  }
+</instructions>`
+
+  const result = await generateObject({
+    model: getModel('chapters'),
+    prompt,
+    schema: z.object({
+      chapters: z.array(
+        z.object({
+          title: z.string(),
+          breakpointId: z.number().int(),
+        })
+      ),
+    }),
+  })
+
+  return validateStructuredChapters(
+    result.object.chapters,
+    breakpoints,
+    duration,
+    maxChapters
+  )
+}
+
+/**
+ * Resolve breakpoint IDs to start times and reject results that are out
+ * of order or outside the episode. The first chapter always starts at
+ * 00:00, like published chapters do.
+ */
+export function validateStructuredChapters(
+  chapters: { title: string; breakpointId: number }[],
+  breakpoints: Breakpoint[],
+  duration: number,
+  maxChapters: number
+): Chapter[] {
+  if (chapters.length === 0) {
+    throw new Error('No chapters were returned')
+  }
+  if (chapters.length > maxChapters) {
+    throw new Error(
+      `Expected at most ${maxChapters} chapters, got ${chapters.length}`
+    )
+  }
+
+  const breakpointsById = new Map(
+    breakpoints.map((breakpoint) => [
+      breakpoint.id,
+      breakpoint,
+    ])
+  )
+
+  let previousStartTime = -1
+  return chapters.map((chapter, index) => {
+    const breakpoint = breakpointsById.get(
+      chapter.breakpointId
+    )
+    if (!breakpoint) {
+      throw new Error(
+        `Chapter "${chapter.title}" uses unknown breakpoint ${chapter.breakpointId}`
+      )
+    }
+    if (breakpoint.timestamp <= previousStartTime) {
+      throw new Error(
+        `Chapter "${chapter.title}" starts before the chapter it follows`
+      )
+    }
+    if (breakpoint.timestamp > duration) {
+      throw new Error(
+        `Chapter "${chapter.title}" starts after the end of the episode`
+      )
+    }
+    const startTime = index === 0 ? 0 : breakpoint.timestamp
+    previousStartTime = startTime
+
+    return {
+      title: chapter.title,
+      content: '',
+      number: index + 1,
+      startTime,
+    }
+  })
+}
+
+/**
+ * Read cues for the windowed and structured strategies from the
+ * transcript file, or from the transcript text itself if it is VTT.
+ * Untimed text has no cues; a file that can't be read or parsed is an
+ * error.
+ */
+async function loadTranscriptCues(
+  transcript: string,
+  transcriptPath?: string
+): Promise<TranscriptCue[]> {
+  if (transcriptPath) {
+    return readTranscriptCues(transcriptPath)
+  }
+  return isVTT(transcript) ? parseVTT(transcript) : []
+}
+
 /**
  * Format seconds to HH:MM:SS time string
  */
@@ -233,62 +755,216 @@ function parseTimeToSeconds(
   return undefined
 }
 
+export interface ProcessChaptersOptions {
+  transcriptPath?: string // read cues from here instead of the text
+  cues?: TranscriptCue[] // already parsed cues, e.g. of an SRT file
+  maxChapters?: number
+  strategy?: ChapterStrategy
+  // Pick which of the detected chapters to keep before their start
+  // times are looked up
+  selectChapters?: (
+    chapters: Chapter[]
+  ) => Promise<Chapter[]>
+  // Move every start but the first to the best nearby sentence start or
+  // speaker turn, preferring ones after a silence in the recording
+  snap?: SnapOptions & { audioPath?: string }
+  onProgress?: (progress: ChapterProgress) => void
+}
+
+export type ChapterProgress =
+  | {
+      step: 'speakerChanges'
+      speakerChanges: SpeakerChange[]
+    }
+  | { step: 'topics'; chapters: Chapter[] }
+  | {
+      step: 'timestamp'
+      chapter: Chapter
+      index: number
+      total: number
+    }
+  | { step: 'silences'; audioPath: string }
+  | { step: 'snapped'; results: SnapResult[] }
+
 /**
- * Process a transcript to extract chapters with timestamps
+ * Process a transcript to extract chapters with timestamps, snapped to
+ * nearby boundaries if asked. This is the pipeline behind both the
+ * chapters CLI and the evaluation.
  */
 export async function processTranscriptChapters(
   transcript: string,
-  transcriptPath?: string,
-  maxChapters: number = 5
+  options: ProcessChaptersOptions = {}
 ): Promise<Chapter[]> {
-  // Step 1: Split transcript into chapters
-  const chapters = await splitTranscriptIntoChapters(
+  const {
+    maxChapters = 5,
+    strategy = 'full',
+    onProgress,
+  } = options
+
+  // Untimed text can still be split with the full strategy
+  const cues =
+    options.cues ??
+    (await loadTranscriptCues(
+      transcript,
+      options.transcriptPath
+    ))
+  const speakerChanges = getSpeakerChanges(cues)
+  onProgress?.({ step: 'speakerChanges', speakerChanges })
+
+  let chapters = await detectChapters(
     transcript,
-    maxChapters
+    cues,
+    speakerChanges,
+    maxChapters,
+    strategy
   )
+  onProgress?.({ step: 'topics', chapters })
+  if (options.selectChapters) {
+    chapters = await options.selectChapters(chapters)
+  }
 
-  // Step 2: Extract speaker changes if transcript path is provided
-  let speakerChanges: SpeakerChange[] = []
-  if (transcriptPath) {
-    try {
-      speakerChanges = await extractSpeakerChanges(
-        transcriptPath
+  // Find timestamps for each chapter sequentially
+  const chaptersWithTimestamps: Chapter[] = []
+  for (const [index, chapter] of chapters.entries()) {
+    onProgress?.({
+      step: 'timestamp',
+      chapter,
+      index,
+      total: chapters.length,
+    })
+    chaptersWithTimestamps.push(
+      await locateChapter(
+        chapter,
+        transcript,
+        cues,
+        chaptersWithTimestamps[index - 1],
+        speakerChanges
       )
-      console.log(
-        `Extracted ${speakerChanges.length} speaker changes from transcript.`
+    )
+  }
+
+  return options.snap
+    ? snapToBoundaries(
+        chaptersWithTimestamps,
+        cues,
+        speakerChanges,
+        options.snap,
+        onProgress
       )
+    : chaptersWithTimestamps
+}
 
-      // Log the extracted speaker changes for review
-      speakerChanges.forEach((change) => {
-        console.log(
-          `Speaker change at ${formatSecondsToTimeString(
-            change.timestamp
-          )}: ${change.speaker}`
-        )
-      })
-    } catch (error) {
-      console.error(
-        'Failed to extract speaker changes:',
-        error
+/**
+ * Refine chapter starts with the boundary candidates of the transcript,
+ * plus silences when there is a recording
+ */
+async function snapToBoundaries(
+  chapters: Chapter[],
+  cues: TranscriptCue[],
+  speakerChanges: SpeakerChange[],
+  {
+    audioPath,
+    ...snapOptions
+  }: NonNullable<ProcessChaptersOptions['snap']>,
+  onProgress?: ProcessChaptersOptions['onProgress']
+): Promise<Chapter[]> {
+  let silences: SilenceInterval[] = []
+  if (audioPath) {
+    onProgress?.({ step: 'silences', audioPath })
+    silences = await detectSilences(audioPath)
+  }
+
+  const { chapters: snapped, results } = snapChapters(
+    chapters,
+    buildBoundaryCandidates({
+      cues,
+      silences,
+      speakerChanges,
+    }),
+    snapOptions
+  )
+  onProgress?.({ step: 'snapped', results })
+  return snapped
+}
+
+/**
+ * Find chapter topics with the chosen strategy. Windowed chapters come
+ * with the range to look for their start in, structured ones with a
+ * start time.
+ */
+async function detectChapters(
+  transcript: string,
+  cues: TranscriptCue[],
+  speakerChanges: SpeakerChange[],
+  maxChapters: number,
+  strategy: ChapterStrategy
+): Promise<Chapter[]> {
+  if (strategy === 'windowed') {
+    if (cues.length === 0) {
+      throw new Error(
+        'The windowed strategy needs a transcript with timestamps'
       )
     }
+    const windows = splitCuesIntoWindows(cues)
+    console.log(
+      `Split transcript into ${windows.length} windows.`
+    )
+    return splitTranscriptIntoChaptersWindowed(
+      windows,
+      maxChapters
+    )
   }
 
-  // Step 3: Find timestamps for each chapter sequentially
-  const chaptersWithTimestamps: Chapter[] = []
-
-  for (let i = 0; i < chapters.length; i++) {
-    const previousChapter =
-      i > 0 ? chaptersWithTimestamps[i - 1] : undefined
-    const chapterWithTimestamp =
-      await findChapterTimestamps(
-        chapters[i],
+  if (strategy === 'structured' && cues.length > 0) {
+    try {
+      return await generateChaptersWithTimestamps(
         transcript,
-        previousChapter,
-        speakerChanges
+        buildBreakpoints(cues, speakerChanges),
+        cues[cues.length - 1].end,
+        maxChapters
+      )
+    } catch (error) {
+      console.warn(
+        'Structured chapter generation failed, finding timestamps one by one instead:',
+        error instanceof Error ? error.message : error
       )
-    chaptersWithTimestamps.push(chapterWithTimestamp)
+    }
+  }
+
+  return splitTranscriptIntoChapters(
+    transcript,
+    maxChapters
+  )
+}
+
+/**
+ * Find the start of a chapter, within its window if it has one.
+ * Chapters from the structured strategy already have one.
+ */
+async function locateChapter(
+  chapter: Chapter,
+  transcript: string,
+  cues: TranscriptCue[],
+  previousChapter?: Chapter,
+  speakerChanges?: SpeakerChange[]
+): Promise<Chapter> {
+  if (chapter.startTime !== undefined) {
+    return chapter
   }
 
-  return chaptersWithTimestamps
+  if (chapter.searchRange) {
+    return findChapterTimestampInWindow(
+      chapter,
+      cues,
+      previousChapter,
+      speakerChanges
+    )
+  }
+
+  return findChapterTimestamps(
+    chapter,
+    transcript,
+    previousChapter,
+    speakerChanges
+  )
 }
@@ -0,0 +1,328 @@
+export interface TranscriptionWord {
+  word: string
+  start: number // in seconds
+  end: number // in seconds
+}
+
+export interface TranscriptionSegment {
+  id: number
+  start: number // in seconds
+  end: number // in seconds
+  text: string
+}
+
+/**
+ * The verbose_json response of the transcription API with word
+ * timestamps
+ */
+export interface TranscriptionResponse {
+  text: string
+  words: TranscriptionWord[]
+  segments: TranscriptionSegment[]
+}
+
+/**
+ * A transcription of one piece of a longer recording, with times
+ * relative to the start of that piece
+ */
+export interface TranscriptChunk<T> {
+  offset: number // where the piece starts in the recording, in seconds
+  transcription: T
+}
+
+interface TimedToken {
+  text: string // normalized for comparison
+  start: number
+  end: number
+}
+
+interface OverlapSplit {
+  previousEnd: number // tokens of the earlier chunk to keep
+  nextStart: number // first token of the later chunk to keep
+  time: number // in seconds, where the later chunk takes over
+}
+
+// Fewer matching words than this is treated as a coincidence
+const MIN_ALIGNED_TOKENS = 2
+// How far apart in time two chunks may place the same word
+const MAX_ALIGNMENT_DRIFT = 2 // in seconds
+// A later segment must reach this far past the earlier ones to be kept
+const MIN_NEW_COVERAGE = 1 // in seconds
+
+/**
+ * Merge word-level transcriptions of overlapping audio chunks. The words
+ * both chunks heard are aligned and kept once, segments are cut at the
+ * same point and renumbered, and timings never go backwards.
+ */
+export function mergeWordTranscriptions(
+  chunks: TranscriptChunk<TranscriptionResponse>[]
+): TranscriptionResponse {
+  let words: TranscriptionWord[] = []
+  let segments: TranscriptionSegment[] = []
+
+  for (const chunk of chunks) {
+    const chunkWords = chunk.transcription.words.map(
+      (word) => shiftTimes(word, chunk.offset)
+    )
+    const chunkSegments = chunk.transcription.segments.map(
+      (segment) => shiftTimes(segment, chunk.offset)
+    )
+
+    if (words.length === 0 && segments.length === 0) {
+      words = chunkWords
+      segments = chunkSegments
+      continue
+    }
+
+    const split = findOverlapSplit(
+      words.map(toWordToken),
+      chunkWords.map(toWordToken),
+      chunk.offset,
+      getEnd([...words, ...segments])
+    )
+
+    segments = joinSegmentsAtSplit(
+      { segments, words },
+      { segments: chunkSegments, words: chunkWords },
+      split
+    )
+    words = [
+      ...words.slice(0, split.previousEnd),
+      ...chunkWords.slice(split.nextStart),
+    ]
+  }
+
+  const monotonicSegments = makeMonotonic(segments).map(
+    (segment, id) => ({ ...segment, id })
+  )
+
+  return {
+    text:
+      monotonicSegments.length > 0
+        ? joinText(monotonicSegments.map((s) => s.text))
+        : joinText(words.map((word) => word.word)),
+    words: makeMonotonic(words),
+    segments: monotonicSegments,
+  }
+}
+
+/**
+ * Find where the later chunk should take over. Both chunks transcribe
+ * the overlap, so the longest run of the same words at about the same
+ * time is taken as the shared part and split in its middle, away from
+ * the chunk edges where transcription is least reliable. Without such a
+ * run, the middle of the overlap is used.
+ */
+function findOverlapSplit(
+  previous: TimedToken[],
+  next: TimedToken[],
+  overlapStart: number,
+  overlapEnd: number
+): OverlapSplit {
+  // Only the tail of the earlier chunk and the head of the later one
+  // can be in the overlap
+  const previousFrom = previous.findIndex(
+    (token) =>
+      token.end > overlapStart - MAX_ALIGNMENT_DRIFT
+  )
+  const tail =
+    previousFrom === -1 ? [] : previous.slice(previousFrom)
+  const head = next.filter(
+    (token) =>
+      token.start < overlapEnd + MAX_ALIGNMENT_DRIFT
+  )
+
+  // Longest common run of tokens, by dynamic programming
+  let bestLength = 0
+  let bestTailEnd = 0
+  let bestHeadEnd = 0
+  const emptyRow = () =>
+    Array<number>(head.length + 1).fill(0)
+  let runLengths = emptyRow()
+
+  for (let i = 1; i <= tail.length; i++) {
+    const current = emptyRow()
+    for (let j = 1; j <= head.length; j++) {
+      const a = tail[i - 1]
+      const b = head[j - 1]
+      if (
+        a.text !== '' &&
+        a.text === b.text &&
+        Math.abs(a.start - b.start) <= MAX_ALIGNMENT_DRIFT
+      ) {
+        current[j] = runLengths[j - 1] + 1
+        if (current[j] > bestLength) {
+          bestLength = current[j]
+          bestTailEnd = i
+          bestHeadEnd = j
+        }
+      }
+    }
+    runLengths = current
+  }
+
+  if (bestLength >= MIN_ALIGNED_TOKENS) {
+    const middle = Math.floor(bestLength / 2)
+    const tailIndex = bestTailEnd - bestLength + middle
+    const headIndex = bestHeadEnd - bestLength + middle
+
+    return {
+      previousEnd: previousFrom + tailIndex,
+      nextStart: headIndex,
+      time: head[headIndex].start,
+    }
+  }
+
+  const time = (overlapStart + overlapEnd) / 2
+  const nextStart = next.findIndex(
+    (token) => token.start >= time
+  )
+  return {
+    previousEnd: previous.filter(
+      (token) => token.start < time
+    ).length,
+    nextStart: nextStart === -1 ? next.length : nextStart,
+    time,
+  }
+}
+
+/**
+ * Cut the segments of both chunks where their words were cut, so a
+ * segment straddling the split loses the words the other chunk keeps,
+ * from its text as well as its timing. Segments without word timings
+ * can only be kept whole: the earlier chunk keeps those starting before
+ * the split and the later chunk adds those reaching past what is
+ * already covered.
+ */
+function joinSegmentsAtSplit(
+  previous: Pick<
+    TranscriptionResponse,
+    'segments' | 'words'
+  >,
+  next: Pick<TranscriptionResponse, 'segments' | 'words'>,
+  split: OverlapSplit
+): TranscriptionSegment[] {
+  const kept = previous.segments.flatMap(
+    (segment) =>
+      cutSegment(
+        segment,
+        previous.words,
+        (index) => index < split.previousEnd
+      ) ?? (segment.start < split.time ? [segment] : [])
+  )
+  const coveredUntil = getEnd(kept)
+
+  return [
+    ...kept,
+    ...next.segments.flatMap(
+      (segment) =>
+        cutSegment(
+          segment,
+          next.words,
+          (index) => index >= split.nextStart
+        ) ??
+        (segment.start >= split.time ||
+        segment.end > coveredUntil + MIN_NEW_COVERAGE
+          ? [segment]
+          : [])
+    ),
+  ]
+}
+
+/**
+ * Drop the words of a segment that `keep` rejects. The text of a cut
+ * segment is rebuilt from the words it keeps, since its own text need
+ * not have one token per timed word (dashes, numbers and hyphenated
+ * words differ). Undefined when no word falls inside the segment.
+ */
+function cutSegment(
+  segment: TranscriptionSegment,
+  words: TranscriptionWord[],
+  keep: (index: number) => boolean
+): TranscriptionSegment[] | undefined {
+  const indices = words.flatMap((word, index) => {
+    const middle = (word.start + word.end) / 2
+    return middle >= segment.start && middle < segment.end
+      ? [index]
+      : []
+  })
+  if (indices.length === 0) return undefined
+
+  const keptIndices = indices.filter(keep)
+  if (keptIndices.length === indices.length) {
+    return [segment]
+  }
+  const text = joinText(
+    keptIndices.map((index) => words[index].word)
+  )
+  if (text === '') return []
+
+  return [
+    {
+      ...segment,
+      start: words[keptIndices[0]].start,
+      end: words[keptIndices[keptIndices.length - 1]].end,
+      text: ` ${text}`,
+    },
+  ]
+}
+
+function toWordToken(word: TranscriptionWord): TimedToken {
+  return {
+    text: normalizeWord(word.word),
+    start: word.start,
+    end: word.end,
+  }
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+function shiftTimes<
+  T extends { start: number; end: number }
+>(item: T, offset: number): T {
+  // Rounded to ms to avoid float noise like 600.0000000001
+  return {
+    ...item,
+    start: Math.round((item.start + offset) * 1000) / 1000,
+    end: Math.round((item.end + offset) * 1000) / 1000,
+  }
+}
+
+/**
+ * Make sure no item starts before the one in front of it has ended
+ */
+function makeMonotonic<
+  T extends { start: number; end: number }
+>(items: T[]): T[] {
+  const result: T[] = []
+
+  for (const item of items) {
+    const previous = result[result.length - 1]
+    const start = previous
+      ? Math.max(item.start, previous.end)
+      : item.start
+    result.push({
+      ...item,
+      start,
+      end: Math.max(item.end, start),
+    })
+  }
+
+  return result
+}
+
+function getEnd(items: { end: number }[]): number {
+  return items.reduce(
+    (end, item) => Math.max(end, item.end),
+    0
+  )
+}
+
+function joinText(parts: string[]): string {
+  return parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(' ')
+}
@@ -0,0 +1,479 @@
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+
+export interface TranscriptCue {
+  id?: string
+  start: number // in seconds
+  end: number // in seconds
+  speaker?: string // from a <v> voice tag or a "Name:" label
+  text: string // cue payload without voice tags
+  settings?: string // cue settings after the end timestamp
+}
+
+const TIMING_PATTERN =
+  /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})(?:\s+(.*))?$/
+const VOICE_TAG_PATTERN = /<v(?:\.[^\s>]+)*\s+([^>]+)>/
+const VOICE_TAGS_PATTERN =
+  /<v(?:\.[^\s>]+)*(?:\s+[^>]*)?>|<\/v>/g
+const SRT_TIMING_PATTERN =
+  /^(\d+:\d{2}:\d{2}[,.]\d{1,3})\s+-->\s+(\d+:\d{2}:\d{2}[,.]\d{1,3})/
+const TIMESTAMP = String.raw`(?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`
+// A capitalised name of up to four words before a colon
+const SPEAKER_PREFIX_PATTERN =
+  /^(>>\s*)?([A-Z][\w'.-]*(?: [A-Z][\w'.-]*){0,3}):\s+/
+// "[00:01:23] text" or "(01:23) text"
+const BRACKETED_LINE_PATTERN = new RegExp(
+  `^[[(](${TIMESTAMP})[\\])]\\s*(.*)$`
+)
+// "00:01:23 - text", "01:23 | text" or a timestamp on its own line
+const LEADING_TIMESTAMP_PATTERN = new RegExp(
+  `^(${TIMESTAMP})(?:\\s+[-–—|]\\s+(.*))?$`
+)
+// "Alexander Lichter (01:23)" or "Alexander Lichter  01:23" on its own line
+const SPEAKER_HEADER_PATTERN = new RegExp(
+  `^([A-Z][\\w'.-]*(?: [A-Z][\\w'.-]*){0,3})\\s+(\\()?(${TIMESTAMP})(\\))?$`
+)
+
+export interface TranscriptParseOptions {
+  // Names that may start a line as "Name: text". Without them only
+  // ">> Name:" and all-caps "NAME:" prefixes are read as speakers, so
+  // prose like "Note: ..." stays text.
+  speakers?: string[]
+}
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'txt'
+
+/**
+ * Whether a document starts with the WEBVTT header
+ */
+export function isVTT(content: string): boolean {
+  return /^\uFEFF?\s*WEBVTT/.test(content)
+}
+
+/**
+ * Parse a WebVTT document into cues. NOTE, STYLE and REGION blocks are
+ * skipped; multi-line payloads are kept with their line breaks.
+ */
+export function parseVTT(content: string): TranscriptCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n(?:[ \t]*\n)+/)
+
+  if (!isVTT(content)) {
+    throw new Error(
+      'Not a WebVTT file: missing WEBVTT header'
+    )
+  }
+
+  const cues: TranscriptCue[] = []
+
+  for (const block of blocks.slice(1)) {
+    const lines = block.split('\n')
+    if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue
+
+    // An optional identifier comes before the timing line
+    let timingIndex = 0
+    if (!lines[0].includes('-->')) {
+      timingIndex = 1
+    }
+
+    const timingMatch = lines[timingIndex]
+      ?.trim()
+      .match(TIMING_PATTERN)
+    if (!timingMatch) continue
+
+    const payload = lines.slice(timingIndex + 1).join('\n')
+    const cue: TranscriptCue = {
+      start: parseTimestamp(timingMatch[1]),
+      end: parseTimestamp(timingMatch[2]),
+      ...parseCuePayload(payload),
+    }
+    if (timingIndex === 1) {
+      cue.id = lines[0].trim()
+    }
+    if (timingMatch[3]) {
+      cue.settings = timingMatch[3].trim()
+    }
+
+    cues.push(cue)
+  }
+
+  return cues
+}
+
+/**
+ * Pull the speaker out of a cue payload. The voice tag may sit on any
+ * line, not just the first.
+ */
+function parseCuePayload(payload: string): {
+  speaker?: string
+  text: string
+} {
+  const voiceMatch = payload.match(VOICE_TAG_PATTERN)
+  const text = payload
+    .replace(VOICE_TAGS_PATTERN, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .trim()
+
+  return voiceMatch
+    ? { speaker: voiceMatch[1].trim(), text }
+    : { text }
+}
+
+/**
+ * Parse a SubRip (SRT) file into cues. Speakers are taken from a
+ * "Name:" prefix on the first text line.
+ */
+export function parseSRT(
+  content: string,
+  options: TranscriptParseOptions = {}
+): TranscriptCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n(?:[ \t]*\n)+/)
+
+  const cues: TranscriptCue[] = []
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+
+    const timingIndex = lines.findIndex((line) =>
+      SRT_TIMING_PATTERN.test(line.trim())
+    )
+    if (timingIndex === -1) continue
+
+    const timingMatch = lines[timingIndex]
+      .trim()
+      .match(SRT_TIMING_PATTERN)!
+    const cue: TranscriptCue = {
+      start: parseTimestamp(timingMatch[1]),
+      end: parseTimestamp(timingMatch[2]),
+      ...splitSpeakerPrefix(
+        lines
+          .slice(timingIndex + 1)
+          .map((line) => line.trim())
+          .join('\n')
+          .trim(),
+        options
+      ),
+    }
+    if (timingIndex > 0) {
+      cue.id = lines[timingIndex - 1].trim()
+    }
+
+    cues.push(cue)
+  }
+
+  return cues
+}
+
+/**
+ * Parse plain text with timestamps, such as "[00:01:23] Name: text" lines
+ * or "Name (01:23)" headers followed by paragraphs. A timestamp must be
+ * bracketed or lead its line before a separator, so times in prose are
+ * left alone. Each cue ends where the next one starts. Text without any
+ * timestamps yields no cues.
+ */
+export function parseTimestampedText(
+  content: string,
+  options: TranscriptParseOptions = {}
+): TranscriptCue[] {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+
+  const cues: TranscriptCue[] = []
+
+  for (const line of lines) {
+    if (!line) continue
+
+    const header = parseSpeakerHeader(line, options)
+    if (header) {
+      cues.push({ ...header, end: header.start, text: '' })
+      continue
+    }
+
+    const timestampMatch =
+      line.match(BRACKETED_LINE_PATTERN) ??
+      line.match(LEADING_TIMESTAMP_PATTERN)
+    if (timestampMatch) {
+      const start = parseTimestamp(timestampMatch[1])
+      cues.push({
+        start,
+        end: start,
+        ...splitSpeakerPrefix(
+          (timestampMatch[2] ?? '').trim(),
+          options
+        ),
+      })
+      continue
+    }
+
+    // Untimed lines belong to the cue before them
+    const current = cues[cues.length - 1]
+    if (current) {
+      current.text = current.text
+        ? `${current.text}\n${line}`
+        : line
+    }
+  }
+
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].end = Math.max(cues[i].start, cues[i + 1].start)
+  }
+
+  return cues
+}
+
+/**
+ * Parse a transcript in any supported format into cues
+ */
+export function parseTranscript(
+  content: string,
+  format: TranscriptFormat,
+  options: TranscriptParseOptions = {}
+): TranscriptCue[] {
+  switch (format) {
+    case 'vtt':
+      return parseVTT(content)
+    case 'srt':
+      return parseSRT(content, options)
+    case 'txt':
+      return parseTimestampedText(content, options)
+  }
+}
+
+/**
+ * Work out the transcript format from a file extension
+ */
+export function getTranscriptFormat(
+  filePath: string
+): TranscriptFormat {
+  const extension = extname(filePath).toLowerCase()
+  switch (extension) {
+    case '.vtt':
+      return 'vtt'
+    case '.srt':
+      return 'srt'
+    case '.txt':
+      return 'txt'
+    default:
+      throw new Error(
+        `Unsupported transcript format: ${extension}`
+      )
+  }
+}
+
+/**
+ * Read a transcript file of any supported format into cues
+ */
+export async function readTranscriptCues(
+  filePath: string,
+  options: TranscriptParseOptions = {}
+): Promise<TranscriptCue[]> {
+  const content = await readFile(filePath, 'utf-8')
+  return parseTranscript(
+    content,
+    getTranscriptFormat(filePath),
+    options
+  )
+}
+
+/**
+ * Convert a transcript of any supported format to WebVTT so every format
+ * reaches the model the same way. Untimed text is returned unchanged.
+ */
+export function normalizeTranscript(
+  content: string,
+  format: TranscriptFormat,
+  options: TranscriptParseOptions = {}
+): string {
+  if (format === 'vtt') {
+    return content
+  }
+
+  const cues = parseTranscript(content, format, options)
+  return cues.length > 0 ? serializeVTT(cues) : content
+}
+
+function splitSpeakerPrefix(
+  text: string,
+  options: TranscriptParseOptions
+): {
+  speaker?: string
+  text: string
+} {
+  const names = getKnownNamesPattern(options)
+  const match =
+    (names &&
+      text.match(
+        new RegExp(`^(>>\\s*)?(${names}):\\s+`, 'i')
+      )) ||
+    text.match(SPEAKER_PREFIX_PATTERN)
+  const speaker =
+    match && toSpeaker(match[2], !!match[1], options)
+  return speaker
+    ? { speaker, text: text.slice(match[0].length) }
+    : { text }
+}
+
+function parseSpeakerHeader(
+  line: string,
+  options: TranscriptParseOptions
+): { speaker: string; start: number } | undefined {
+  const names = getKnownNamesPattern(options)
+  const match =
+    (names &&
+      line.match(
+        new RegExp(
+          `^(${names})\\s+(\\()?(${TIMESTAMP})(\\))?$`,
+          'i'
+        )
+      )) ||
+    line.match(SPEAKER_HEADER_PATTERN)
+  if (!match) return undefined
+
+  // An unbracketed time needs a name we can trust
+  const bracketed = !!match[2] && !!match[4]
+  const speaker = toSpeaker(match[1], bracketed, options)
+  return speaker
+    ? { speaker, start: parseTimestamp(match[3]) }
+    : undefined
+}
+
+// The listed speakers as alternatives for a pattern, longest first so
+// "Rijk van Zanten" isn't cut short by a "Rijk". The names are matched as
+// they are, since they needn't be capitalised throughout.
+function getKnownNamesPattern(
+  options: TranscriptParseOptions
+): string | undefined {
+  if (!options.speakers?.length) return undefined
+  return [...options.speakers]
+    .sort((a, b) => b.length - a.length)
+    .map((speaker) =>
+      speaker.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('|')
+}
+
+// A name from a known speaker, a marked line or in all caps, spelled the
+// way the speaker list spells it
+function toSpeaker(
+  name: string,
+  marked: boolean,
+  options: TranscriptParseOptions
+): string | undefined {
+  const known = options.speakers?.find(
+    (speaker) =>
+      speaker.toLowerCase() === name.toLowerCase()
+  )
+  if (known) return known
+
+  const allCaps =
+    /[A-Z]{2}/.test(name) && name === name.toUpperCase()
+  return marked || allCaps ? name : undefined
+}
+
+/**
+ * Serialize cues back to a WebVTT document
+ */
+export function serializeVTT(
+  cues: TranscriptCue[]
+): string {
+  const blocks = cues.map((cue) => {
+    const lines: string[] = []
+    if (cue.id) {
+      lines.push(cue.id)
+    }
+    lines.push(
+      `${formatTimestamp(cue.start)} --> ${formatTimestamp(
+        cue.end
+      )}${cue.settings ? ` ${cue.settings}` : ''}`
+    )
+    // A blank line would end the cue early
+    const text = cue.text.replace(/\n(?:[ \t]*\n)+/g, '\n')
+    lines.push(
+      cue.speaker ? `<v ${cue.speaker}>${text}` : text
+    )
+    return lines.join('\n')
+  })
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n'
+}
+
+/**
+ * Serialize cues to "[00:01:23.000] >> Name: text" lines that
+ * parseTimestampedText reads back. Cue ends are not kept, since each cue
+ * there ends where the next one starts.
+ */
+export function serializeTimestampedText(
+  cues: TranscriptCue[]
+): string {
+  return (
+    cues
+      .map(
+        (cue) =>
+          `[${formatTimestamp(cue.start)}] ${
+            cue.speaker ? `>> ${cue.speaker}: ` : ''
+          }${cue.text.replace(/\n(?:[ \t]*\n)+/g, '\n')}`
+      )
+      .join('\n') + '\n'
+  )
+}
+
+/**
+ * Parse a timestamp (HH:MM:SS.mmm or MM:SS.mmm, with a comma also
+ * accepted as the decimal separator) to seconds
+ */
+export function parseTimestamp(timestamp: string): number {
+  const parts = timestamp
+    .trim()
+    .replace(',', '.')
+    .split(':')
+    .map(Number)
+  if (parts.length < 2 || parts.some(isNaN)) {
+    throw new Error(`Invalid timestamp: ${timestamp}`)
+  }
+
+  const seconds = parts.reduce(
+    (total, part) => total * 60 + part,
+    0
+  )
+  // Avoid float noise like 109.75999999999999
+  return Math.round(seconds * 1000) / 1000
+}
+
+/**
+ * Format seconds as a VTT timestamp (HH:MM:SS.mmm)
+ */
+export function formatTimestamp(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000)
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+
+  return `${hours.toString().padStart(2, '0')}:${minutes
+    .toString()
+    .padStart(2, '0')}:${secs
+    .toString()
+    .padStart(2, '0')}.${ms.toString().padStart(3, '0')}`
+}
+
+/**
+ * Flatten cues to plain text, one space between cues
+ */
+export function cuesToText(cues: TranscriptCue[]): string {
+  return cues
+    .map((cue) => cue.text.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(' ')
+}
@@ -0,0 +1,511 @@
+import { execFile } from 'child_process'
+import ffmpeg from 'fluent-ffmpeg'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { FetchError, ofetch } from 'ofetch'
+import { tmpdir } from 'os'
+import { basename, extname, join } from 'path'
+import { promisify } from 'util'
+import { z } from 'zod'
+import { isFileNotFoundError } from './fs-errors'
+import type {
+  TranscriptionResponse,
+  TranscriptionSegment,
+  TranscriptionWord,
+} from './transcript-merge'
+
+const execFileAsync = promisify(execFile)
+
+export type TranscriptionBackendName =
+  | 'openai'
+  | 'openai-compatible'
+  | 'whisper-cpp'
+  | 'faster-whisper'
+
+export const TRANSCRIPTION_BACKENDS: TranscriptionBackendName[] =
+  [
+    'openai',
+    'openai-compatible',
+    'whisper-cpp',
+    'faster-whisper',
+  ]
+
+export interface TranscriptionRequest {
+  model: string
+  language: string
+  prompt?: string
+}
+
+/**
+ * Something that turns an audio file into a transcription with word and
+ * segment timestamps, whether an API or a local program
+ */
+export interface TranscriptionBackend {
+  name: TranscriptionBackendName
+  defaultModel: string
+  transcribe(
+    audioPath: string,
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResponse>
+}
+
+export interface TranscriptionBackendOptions {
+  apiKey?: string
+  baseURL?: string // for openai-compatible
+  command?: string // for the local backends
+}
+
+// Keeps the HTTP status so rate limits and server errors can be retried
+export class TranscriptionError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message)
+    this.name = 'TranscriptionError'
+  }
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_WHISPER_CPP_COMMAND = 'whisper-cli'
+const DEFAULT_FASTER_WHISPER_COMMAND = 'whisper-ctranslate2'
+// Transcribing an hour of audio on a CPU can take a while
+const LOCAL_TIMEOUT = 2 * 60 * 60 * 1000 // in ms
+
+const wordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+})
+
+// verbose_json from the API, or the JSON the local CLIs write
+const verboseResponseSchema = z.object({
+  text: z.string().optional(),
+  words: z.array(wordSchema).optional(),
+  segments: z
+    .array(
+      z.object({
+        id: z.number().optional(),
+        start: z.number(),
+        end: z.number(),
+        text: z.string(),
+        words: z.array(wordSchema).optional(),
+      })
+    )
+    .optional(),
+})
+
+// The body of an OpenAI error response
+const apiErrorSchema = z.object({
+  error: z.object({ message: z.string() }),
+})
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+}
+
+/**
+ * Create a transcription backend. The OpenAI-compatible one needs a base
+ * URL (or TRANSCRIPTION_BASE_URL), the local ones run whisper.cpp's
+ * whisper-cli or whisper-ctranslate2 (faster-whisper), or the program in
+ * `command`.
+ */
+export function createTranscriptionBackend(
+  name: TranscriptionBackendName,
+  options: TranscriptionBackendOptions = {}
+): TranscriptionBackend {
+  switch (name) {
+    case 'openai':
+      return createOpenAIBackend(
+        name,
+        OPENAI_BASE_URL,
+        options.apiKey ?? process.env.OPENAI_API_KEY
+      )
+    case 'openai-compatible': {
+      const baseURL =
+        options.baseURL ??
+        process.env.TRANSCRIPTION_BASE_URL
+      if (!baseURL) {
+        throw new Error(
+          'The openai-compatible backend needs a base URL (--base-url or TRANSCRIPTION_BASE_URL)'
+        )
+      }
+      return createOpenAIBackend(
+        name,
+        baseURL,
+        options.apiKey ?? process.env.TRANSCRIPTION_API_KEY
+      )
+    }
+    case 'whisper-cpp':
+      return createWhisperCppBackend(
+        options.command ??
+          process.env.WHISPER_CPP_COMMAND ??
+          DEFAULT_WHISPER_CPP_COMMAND
+      )
+    case 'faster-whisper':
+      return createFasterWhisperBackend(
+        options.command ??
+          process.env.FASTER_WHISPER_COMMAND ??
+          DEFAULT_FASTER_WHISPER_COMMAND
+      )
+    default:
+      throw new Error(
+        `Unknown transcription backend "${name}", expected one of ${TRANSCRIPTION_BACKENDS.join(
+          ', '
+        )}`
+      )
+  }
+}
+
+export function isTranscriptionBackendName(
+  name: string
+): name is TranscriptionBackendName {
+  return (TRANSCRIPTION_BACKENDS as string[]).includes(name)
+}
+
+function createOpenAIBackend(
+  name: TranscriptionBackendName,
+  baseURL: string,
+  apiKey: string | undefined
+): TranscriptionBackend {
+  return {
+    name,
+    defaultModel: 'whisper-1',
+    transcribe: async (audioPath, request) => {
+      const audio = await readFile(audioPath)
+      const formData = new FormData()
+      formData.append(
+        'file',
+        new Blob([audio], {
+          type:
+            AUDIO_MIME_TYPES[
+              extname(audioPath).toLowerCase()
+            ] ?? 'application/octet-stream',
+        }),
+        basename(audioPath)
+      )
+      formData.append('model', request.model)
+      formData.append('language', request.language)
+      if (request.prompt) {
+        formData.append('prompt', request.prompt)
+      }
+      formData.append('response_format', 'verbose_json')
+      formData.append('timestamp_granularities[]', 'word')
+      formData.append(
+        'timestamp_granularities[]',
+        'segment'
+      )
+
+      console.log(
+        `Transcribing ${basename(audioPath)} (${(
+          audio.length /
+          1024 /
+          1024
+        ).toFixed(2)}MB) with ${name}...`
+      )
+
+      let response: unknown
+      try {
+        response = await ofetch(
+          `${baseURL.replace(
+            /\/$/,
+            ''
+          )}/audio/transcriptions`,
+          {
+            method: 'POST',
+            headers: apiKey
+              ? { Authorization: `Bearer ${apiKey}` }
+              : {},
+            body: formData,
+          }
+        )
+      } catch (error: unknown) {
+        throw toTranscriptionError(error)
+      }
+      return normalizeResponse(response)
+    },
+  }
+}
+
+function toTranscriptionError(
+  error: unknown
+): TranscriptionError {
+  if (!(error instanceof FetchError)) {
+    return new TranscriptionError(
+      `Transcription failed: ${
+        error instanceof Error
+          ? error.message
+          : String(error)
+      }`
+    )
+  }
+
+  console.error('Transcription error details:', {
+    status: error.status,
+    statusText: error.statusText,
+    data: error.data,
+    message: error.message,
+  })
+
+  if (error.status === 400) {
+    const body = apiErrorSchema.safeParse(error.data)
+    return new TranscriptionError(
+      `Bad Request: ${
+        body.success
+          ? body.data.error.message
+          : error.message
+      }`,
+      error.status
+    )
+  } else if (error.status === 401) {
+    return new TranscriptionError(
+      'Authentication failed. Please check your API key.',
+      error.status
+    )
+  } else if (error.status === 429) {
+    return new TranscriptionError(
+      'Rate limit exceeded. Please try again later.',
+      error.status
+    )
+  }
+  return new TranscriptionError(
+    `Transcription failed: ${error.message}`,
+    error.status
+  )
+}
+
+/**
+ * whisper.cpp only reads 16 kHz WAV, so the audio is converted first.
+ * The full JSON output has sub-word tokens, which are joined into words.
+ */
+function createWhisperCppBackend(
+  command: string
+): TranscriptionBackend {
+  return {
+    name: 'whisper-cpp',
+    defaultModel: 'models/ggml-base.bin',
+    transcribe: (audioPath, request) =>
+      withTempDir(async (dir) => {
+        const wavPath = join(dir, 'audio.wav')
+        await convertToWav(audioPath, wavPath)
+
+        const outputBase = join(dir, 'transcript')
+        await runLocal(command, [
+          '--model',
+          request.model,
+          '--file',
+          wavPath,
+          '--language',
+          request.language,
+          ...(request.prompt
+            ? ['--prompt', request.prompt]
+            : []),
+          '--output-json-full',
+          '--output-file',
+          outputBase,
+        ])
+
+        return parseWhisperCppOutput(
+          JSON.parse(
+            await readFile(`${outputBase}.json`, 'utf-8')
+          )
+        )
+      }),
+  }
+}
+
+/**
+ * whisper-ctranslate2 takes the same options and writes the same JSON as
+ * the openai-whisper CLI, so `command` can point to either
+ */
+function createFasterWhisperBackend(
+  command: string
+): TranscriptionBackend {
+  return {
+    name: 'faster-whisper',
+    defaultModel: 'small',
+    transcribe: (audioPath, request) =>
+      withTempDir(async (dir) => {
+        await runLocal(command, [
+          audioPath,
+          '--model',
+          request.model,
+          '--language',
+          request.language,
+          ...(request.prompt
+            ? ['--initial_prompt', request.prompt]
+            : []),
+          '--word_timestamps',
+          'True',
+          '--output_format',
+          'json',
+          '--output_dir',
+          dir,
+        ])
+
+        const outputPath = join(
+          dir,
+          `${basename(audioPath, extname(audioPath))}.json`
+        )
+        return normalizeResponse(
+          JSON.parse(await readFile(outputPath, 'utf-8'))
+        )
+      }),
+  }
+}
+
+interface WhisperCppToken {
+  text: string
+  offsets: { from: number; to: number } // in ms
+}
+
+interface WhisperCppOutput {
+  transcription: {
+    offsets: { from: number; to: number } // in ms
+    text: string
+    tokens?: WhisperCppToken[]
+  }[]
+}
+
+/**
+ * Convert whisper.cpp's --output-json-full result. A token starting with
+ * a space begins a new word; special tokens like [_BEG_] are skipped.
+ */
+export function parseWhisperCppOutput(
+  output: WhisperCppOutput
+): TranscriptionResponse {
+  const words: TranscriptionWord[] = []
+  const segments: TranscriptionSegment[] = []
+
+  for (const [
+    id,
+    entry,
+  ] of output.transcription.entries()) {
+    segments.push({
+      id,
+      start: entry.offsets.from / 1000,
+      end: entry.offsets.to / 1000,
+      text: entry.text,
+    })
+
+    for (const token of entry.tokens ?? []) {
+      if (/^\[_.*\]$/.test(token.text)) continue
+
+      const previous = words[words.length - 1]
+      if (previous && !token.text.startsWith(' ')) {
+        previous.word += token.text
+        previous.end = token.offsets.to / 1000
+      } else if (token.text.trim()) {
+        words.push({
+          word: token.text.trim(),
+          start: token.offsets.from / 1000,
+          end: token.offsets.to / 1000,
+        })
+      }
+    }
+  }
+
+  return {
+    text: segments
+      .map((segment) => segment.text.trim())
+      .join(' '),
+    words,
+    segments,
+  }
+}
+
+/**
+ * Bring a verbose_json style response into the TranscriptionResponse
+ * shape. Servers and CLIs differ in which fields they include, and the
+ * local CLIs nest words inside segments.
+ */
+export function normalizeResponse(
+  response: unknown
+): TranscriptionResponse {
+  const parsed = verboseResponseSchema.safeParse(response)
+  if (!parsed.success) {
+    throw new TranscriptionError(
+      `Unexpected transcription response: ${parsed.error.message}`
+    )
+  }
+
+  const segments = parsed.data.segments ?? []
+  const words =
+    parsed.data.words ??
+    segments.flatMap((segment) => segment.words ?? [])
+
+  return {
+    text: (parsed.data.text ?? '').trim(),
+    words: words.map((word) => ({
+      word: word.word.trim(),
+      start: word.start,
+      end: word.end,
+    })),
+    segments: segments.map((segment, id) => ({
+      id: segment.id ?? id,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+    })),
+  }
+}
+
+async function runLocal(
+  command: string,
+  args: string[]
+): Promise<void> {
+  try {
+    await execFileAsync(command, args, {
+      timeout: LOCAL_TIMEOUT,
+      maxBuffer: 64 * 1024 * 1024,
+    })
+  } catch (error: unknown) {
+    if (isFileNotFoundError(error)) {
+      throw new TranscriptionError(
+        `${command} not found. Install it or set the command to run.`
+      )
+    }
+    // execFile adds what the program printed to the error
+    const stderr =
+      error instanceof Error && 'stderr' in error
+        ? String(error.stderr).trim()
+        : ''
+    throw new TranscriptionError(
+      `${command} failed: ${
+        stderr ||
+        (error instanceof Error
+          ? error.message
+          : String(error))
+      }`
+    )
+  }
+}
+
+function convertToWav(
+  inputPath: string,
+  outputPath: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .audioCodec('pcm_s16le')
+      .on('end', () => resolve())
+      .on('error', (err: Error) => reject(err))
+      .save(outputPath)
+  })
+}
+
+async function withTempDir<T>(
+  fn: (dir: string) => Promise<T>
+): Promise<T> {
+  const dir = await mkdtemp(
+    join(tmpdir(), 'transcription-')
+  )
+  try {
+    return await fn(dir)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
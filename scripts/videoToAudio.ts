@@ -1,8 +1,12 @@
 import ffmpeg from 'fluent-ffmpeg'
+import { parseArgs } from 'util'
 import {
   processFiles,
+  planFiles,
+  formatPlan,
   ContentProcessor,
-} from './scripts/fileUtils'
+} from './fileUtils'
+import { getArtifactPath, loadEpisode } from './episode'
 
 // Default directories
 const DEFAULT_INPUT_DIR = 'videos'
@@ -38,12 +42,55 @@ async function convertVideoToAudio(
 }
 
 async function main() {
-  const args = process.argv.slice(2)
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      // Convert one episode's video instead of a directory
+      episode: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  })
+
+  const episode = values.episode
+    ? await loadEpisode(values.episode)
+    : undefined
+  // An episode only takes the bitrate
   const [
     inputDir = DEFAULT_INPUT_DIR,
     outputDir = DEFAULT_OUTPUT_DIR,
     bitrate = '192k',
-  ] = args
+  ] = episode
+    ? [undefined, undefined, ...positionals]
+    : positionals
+
+  // An episode converts its video artifact into its audio artifact
+  const input = episode
+    ? getArtifactPath(episode, 'video')
+    : inputDir
+  const fileOptions = episode
+    ? {
+        outputDir: episode.dir,
+        fileFilter: () => true,
+        outputPath: () => getArtifactPath(episode, 'audio'),
+      }
+    : {
+        outputDir,
+        fileFilter: VIDEO_EXTENSIONS,
+        recursive: true,
+        outputExtension: AUDIO_EXTENSION,
+      }
+
+  // Show which videos would be converted, without running ffmpeg
+  if (values['dry-run']) {
+    const plan = await planFiles(input, fileOptions)
+    console.log(
+      values.json
+        ? JSON.stringify(plan, null, 2)
+        : formatPlan(plan)
+    )
+    return
+  }
 
   const videoProcessor: ContentProcessor<void> = {
     process: async (_, metadata) => {
@@ -56,12 +103,9 @@ async function main() {
   }
 
   try {
-    await processFiles<void>(inputDir, {
-      outputDir,
+    await processFiles<void>(input, {
+      ...fileOptions,
       processor: videoProcessor,
-      fileFilter: VIDEO_EXTENSIONS,
-      recursive: true,
-      outputExtension: AUDIO_EXTENSION,
       skipContent: true,
     })
     console.log('Conversion completed successfully!')
@@ -71,4 +115,7 @@ async function main() {
   }
 }
 
-main()
+main().catch((error) => {
+  console.error('Error during conversion:', error)
+  process.exit(1)
+})
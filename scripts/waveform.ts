@@ -0,0 +1,549 @@
+import { writeFile } from 'fs/promises'
+import { extname } from 'path'
+import { deflateSync } from 'zlib'
+import ffmpeg from 'fluent-ffmpeg'
+import {
+  ChapterMarker,
+  formatChapterTimestamp,
+} from './chapters-file'
+import type { SpeakerChange } from './extract-speaker-changes'
+import {
+  GLYPH_ADVANCE,
+  GLYPH_HEIGHT,
+  getTextPixels,
+} from './pixel-font'
+import type { SilenceInterval } from './silence'
+
+export interface WaveformPeaks {
+  duration: number // in seconds
+  peaks: number[] // loudest sample per window, 0 to 1
+}
+
+/**
+ * What to draw over the waveform. Every layer is optional.
+ */
+export interface TimelineLayers {
+  silences?: SilenceInterval[]
+  speakerChanges?: SpeakerChange[]
+  proposedChapters?: ChapterMarker[] // e.g. from the chapters CLI
+  publishedChapters?: ChapterMarker[] // e.g. content/*/chapters.txt
+}
+
+export interface TimelineSize {
+  width: number
+  height: number
+}
+
+export interface TimelineShape {
+  x: number
+  y: number
+  width: number
+  height: number
+  color: string // #rrggbb
+  opacity: number
+  label?: string // tooltip in the SVG
+  caption?: string // text drawn right of the shape, in both formats
+}
+
+export const DEFAULT_TIMELINE_SIZE: TimelineSize = {
+  width: 1920,
+  height: 400,
+}
+
+const SAMPLE_RATE = 8000
+const PEAKS_PER_SECOND = 100
+
+const COLORS = {
+  background: '#111111',
+  waveform: '#4ade80',
+  silence: '#ef4444',
+  proposed: '#f59e0b',
+  published: '#38bdf8',
+  caption: '#e5e5e5',
+  speakers: [
+    '#a78bfa',
+    '#f472b6',
+    '#facc15',
+    '#2dd4bf',
+    '#fb923c',
+    '#94a3b8',
+  ],
+}
+
+// Rows from the top: published and proposed chapter ticks, the waveform,
+// then the speaker band
+const TICK_HEIGHT = 14
+const ROW_GAP = 4
+const SPEAKER_BAND_HEIGHT = 16
+// Space between a chapter tick and its caption
+const CAPTION_GAP = 3
+
+/**
+ * Read the loudest sample of every 10ms of a recording
+ */
+export function computeWaveformPeaks(
+  inputPath: string
+): Promise<WaveformPeaks> {
+  return new Promise((resolve, reject) => {
+    const windowSize = SAMPLE_RATE / PEAKS_PER_SECOND
+    const peaks: number[] = []
+    let peak = 0
+    let count = 0
+
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(SAMPLE_RATE)
+      .audioCodec('pcm_s16le')
+      .format('s16le')
+      .on('error', (err: Error) => reject(err))
+      .pipe()
+      .on('data', (data: Buffer) => {
+        for (let i = 0; i + 1 < data.length; i += 2) {
+          peak = Math.max(
+            peak,
+            Math.abs(data.readInt16LE(i) / 32768)
+          )
+          if (++count === windowSize) {
+            peaks.push(peak)
+            peak = 0
+            count = 0
+          }
+        }
+      })
+      .on('end', () => {
+        if (count > 0) peaks.push(peak)
+        resolve({
+          duration: peaks.length / PEAKS_PER_SECOND,
+          peaks,
+        })
+      })
+      .on('error', (err: Error) => reject(err))
+  })
+}
+
+/**
+ * Lay out the waveform and the layers as rectangles. The waveform is
+ * scaled to its loudest column, so quiet recordings still fill the
+ * height.
+ */
+export function buildTimelineShapes(
+  waveform: WaveformPeaks,
+  layers: TimelineLayers,
+  size: TimelineSize = DEFAULT_TIMELINE_SIZE
+): TimelineShape[] {
+  const { width, height } = size
+  const { duration } = waveform
+  const toX = (time: number) =>
+    duration > 0
+      ? Math.round(
+          (Math.min(time, duration) / duration) * width
+        )
+      : 0
+
+  const publishedTop = 0
+  const proposedTop = TICK_HEIGHT + ROW_GAP
+  const waveTop = proposedTop + TICK_HEIGHT + ROW_GAP
+  const speakerTop = height - SPEAKER_BAND_HEIGHT
+  const waveHeight = speakerTop - ROW_GAP - waveTop
+  const waveMiddle = waveTop + waveHeight / 2
+
+  const shapes: TimelineShape[] = [
+    {
+      x: 0,
+      y: 0,
+      width,
+      height,
+      color: COLORS.background,
+      opacity: 1,
+    },
+  ]
+
+  for (const silence of layers.silences ?? []) {
+    const x = toX(silence.start)
+    shapes.push({
+      x,
+      y: waveTop,
+      width: Math.max(1, toX(silence.end) - x),
+      height: waveHeight,
+      color: COLORS.silence,
+      opacity: 0.3,
+      label: `Silence ${formatChapterTimestamp(
+        silence.start
+      )}–${formatChapterTimestamp(silence.end)}`,
+    })
+  }
+
+  const columns = resamplePeaks(waveform.peaks, width)
+  const loudest = Math.max(...columns, 1e-6)
+  columns.forEach((peak, x) => {
+    const barHeight = Math.max(
+      1,
+      Math.round((peak / loudest) * waveHeight)
+    )
+    shapes.push({
+      x,
+      y: Math.round(waveMiddle - barHeight / 2),
+      width: 1,
+      height: barHeight,
+      color: COLORS.waveform,
+      opacity: 1,
+    })
+  })
+
+  const speakerChanges = layers.speakerChanges ?? []
+  const speakers = [
+    ...new Set(
+      speakerChanges.map((change) => change.speaker)
+    ),
+  ]
+  speakerChanges.forEach((change, index) => {
+    const x = toX(change.timestamp)
+    const end =
+      speakerChanges[index + 1]?.timestamp ?? duration
+    shapes.push({
+      x,
+      y: speakerTop,
+      width: Math.max(1, toX(end) - x),
+      height: SPEAKER_BAND_HEIGHT,
+      color:
+        COLORS.speakers[
+          speakers.indexOf(change.speaker) %
+            COLORS.speakers.length
+        ],
+      opacity: 1,
+      label: `${change.speaker} ${formatChapterTimestamp(
+        change.timestamp
+      )}`,
+    })
+  })
+
+  for (const [chapters, top, color, kind] of [
+    [
+      layers.publishedChapters,
+      publishedTop,
+      COLORS.published,
+      'Published',
+    ],
+    [
+      layers.proposedChapters,
+      proposedTop,
+      COLORS.proposed,
+      'Proposed',
+    ],
+  ] as const) {
+    const sorted = [...(chapters ?? [])].sort(
+      (a, b) => a.startTime - b.startTime
+    )
+    sorted.forEach((chapter, index) => {
+      const x = Math.min(toX(chapter.startTime), width - 2)
+      const text = `${formatChapterTimestamp(
+        chapter.startTime
+      )} ${chapter.title}`
+      const label = `${kind}: ${text}`
+      // The caption stops short of the next tick in its row
+      const next = sorted[index + 1]
+      const room =
+        (next ? toX(next.startTime) : width) -
+        x -
+        2 -
+        CAPTION_GAP * 2
+      const caption = text
+        .slice(0, Math.floor(room / GLYPH_ADVANCE))
+        .trimEnd()
+      shapes.push(
+        {
+          x,
+          y: top,
+          width: 2,
+          height: TICK_HEIGHT,
+          color,
+          opacity: 1,
+          label,
+          ...(caption && { caption }),
+        },
+        {
+          x,
+          y: waveTop,
+          width: 2,
+          height: waveHeight,
+          color,
+          opacity: 0.8,
+          label,
+        }
+      )
+    })
+  }
+
+  return shapes
+}
+
+/**
+ * Draw the shapes as an SVG. Labelled shapes get a tooltip, for the
+ * review page, and captions are drawn as text.
+ */
+export function renderTimelineSVG(
+  shapes: TimelineShape[],
+  size: TimelineSize = DEFAULT_TIMELINE_SIZE
+): string {
+  const rects = shapes.map((shape) => {
+    const attributes = `x="${shape.x}" y="${
+      shape.y
+    }" width="${shape.width}" height="${
+      shape.height
+    }" fill="${shape.color}"${
+      shape.opacity < 1
+        ? ` fill-opacity="${shape.opacity}"`
+        : ''
+    }`
+    const rect = shape.label
+      ? `<rect ${attributes}><title>${escapeXml(
+          shape.label
+        )}</title></rect>`
+      : `<rect ${attributes}/>`
+    if (!shape.caption) return rect
+
+    const { x, y } = getCaptionPosition(shape)
+    return `${rect}<text x="${x}" y="${
+      y + GLYPH_HEIGHT
+    }" font-family="monospace" font-size="9" fill="${
+      COLORS.caption
+    }">${escapeXml(shape.caption)}</text>`
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}" viewBox="0 0 ${size.width} ${size.height}" shape-rendering="crispEdges">`,
+    ...rects,
+    '</svg>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Draw the shapes into a PNG, with captions in a small pixel font
+ */
+export function renderTimelinePNG(
+  shapes: TimelineShape[],
+  size: TimelineSize = DEFAULT_TIMELINE_SIZE
+): Buffer {
+  const { width, height } = size
+  const pixels = Buffer.alloc(width * height * 3)
+
+  for (const shape of shapes) {
+    const [r, g, b] = parseColor(shape.color)
+    const x0 = Math.max(0, Math.round(shape.x))
+    const y0 = Math.max(0, Math.round(shape.y))
+    const x1 = Math.min(
+      width,
+      Math.round(shape.x + shape.width)
+    )
+    const y1 = Math.min(
+      height,
+      Math.round(shape.y + shape.height)
+    )
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * width + x) * 3
+        pixels[i] = blend(pixels[i], r, shape.opacity)
+        pixels[i + 1] = blend(
+          pixels[i + 1],
+          g,
+          shape.opacity
+        )
+        pixels[i + 2] = blend(
+          pixels[i + 2],
+          b,
+          shape.opacity
+        )
+      }
+    }
+  }
+
+  const captionColor = parseColor(COLORS.caption)
+  for (const shape of shapes) {
+    if (!shape.caption) continue
+    const position = getCaptionPosition(shape)
+    for (const [dx, dy] of getTextPixels(shape.caption)) {
+      const x = position.x + dx
+      const y = position.y + dy
+      if (x < 0 || x >= width || y < 0 || y >= height) {
+        continue
+      }
+      captionColor.forEach((value, channel) => {
+        pixels[(y * width + x) * 3 + channel] = value
+      })
+    }
+  }
+
+  return encodePNG(width, height, pixels)
+}
+
+/**
+ * Render a recording's waveform with the layers to a .png or .svg file
+ */
+export async function renderTimeline(
+  inputPath: string,
+  outputPath: string,
+  layers: TimelineLayers,
+  size: TimelineSize = DEFAULT_TIMELINE_SIZE
+): Promise<void> {
+  await writeTimeline(
+    await computeWaveformPeaks(inputPath),
+    outputPath,
+    layers,
+    size
+  )
+}
+
+/**
+ * Write waveform peaks with the layers to a .png or .svg file, e.g. to
+ * render several formats from one decode of the recording
+ */
+export async function writeTimeline(
+  waveform: WaveformPeaks,
+  outputPath: string,
+  layers: TimelineLayers,
+  size: TimelineSize = DEFAULT_TIMELINE_SIZE
+): Promise<void> {
+  const shapes = buildTimelineShapes(waveform, layers, size)
+
+  switch (extname(outputPath).toLowerCase()) {
+    case '.svg':
+      await writeFile(
+        outputPath,
+        renderTimelineSVG(shapes, size),
+        'utf-8'
+      )
+      break
+    case '.png':
+      await writeFile(
+        outputPath,
+        renderTimelinePNG(shapes, size)
+      )
+      break
+    default:
+      throw new Error(
+        `Can't render ${outputPath}, expected a .png or .svg file`
+      )
+  }
+}
+
+// Top left corner of a caption, centred on its shape's height
+function getCaptionPosition(shape: TimelineShape): {
+  x: number
+  y: number
+} {
+  return {
+    x: Math.round(shape.x + shape.width + CAPTION_GAP),
+    y: Math.round(
+      shape.y + (shape.height - GLYPH_HEIGHT) / 2
+    ),
+  }
+}
+
+// Loudest peak per column
+function resamplePeaks(
+  peaks: number[],
+  columns: number
+): number[] {
+  return Array.from({ length: columns }, (_, column) => {
+    const from = Math.floor(
+      (column * peaks.length) / columns
+    )
+    const to = Math.max(
+      from + 1,
+      Math.floor(((column + 1) * peaks.length) / columns)
+    )
+    return Math.max(0, ...peaks.slice(from, to))
+  })
+}
+
+function parseColor(
+  color: string
+): [number, number, number] {
+  const value = parseInt(color.slice(1), 16)
+  return [
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ]
+}
+
+function blend(
+  background: number,
+  color: number,
+  opacity: number
+): number {
+  return Math.round(
+    background * (1 - opacity) + color * opacity
+  )
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// An 8-bit RGB PNG with a single IDAT chunk
+function encodePNG(
+  width: number,
+  height: number,
+  pixels: Buffer
+): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 2 // truecolor
+
+  // Every row starts with filter type 0 (none)
+  const rows = Buffer.alloc((width * 3 + 1) * height)
+  for (let y = 0; y < height; y++) {
+    pixels.copy(
+      rows,
+      y * (width * 3 + 1) + 1,
+      y * width * 3,
+      (y + 1) * width * 3
+    )
+  }
+
+  return Buffer.concat([
+    Buffer.from([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([
+    Buffer.from(type, 'ascii'),
+    data,
+  ])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ChunkLimits,
+  DEFAULT_CHUNK_LIMITS,
+  planChunkBoundaries,
+} from '../scripts/audio-chunks'
+
+const limits: ChunkLimits = {
+  ...DEFAULT_CHUNK_LIMITS,
+  targetDuration: 600,
+  maxDuration: 900,
+  overlap: 2,
+  searchWindow: 60,
+}
+
+describe('planChunkBoundaries', () => {
+  it('keeps short recordings in one chunk', () => {
+    expect(planChunkBoundaries(700, [], limits)).toEqual([
+      {
+        start: 0,
+        end: 700,
+        overlapBefore: 0,
+        overlapAfter: 0,
+        cutInSilence: false,
+      },
+    ])
+  })
+
+  it('cuts in the longest pause near the target', () => {
+    const chunks = planChunkBoundaries(
+      1500,
+      [
+        { start: 570, end: 570.6 },
+        { start: 620, end: 622 },
+        { start: 900, end: 905 }, // too far from the target
+      ],
+      limits
+    )
+
+    expect(chunks.map((chunk) => chunk.start)).toEqual([
+      0, 619,
+    ])
+    expect(chunks[0]).toMatchObject({
+      end: 623,
+      overlapAfter: 2,
+      cutInSilence: true,
+    })
+    expect(chunks[1]).toMatchObject({
+      end: 1500,
+      overlapBefore: 2,
+    })
+  })
+
+  it('respects the duration limit without pauses', () => {
+    const chunks = planChunkBoundaries(3000, [], limits)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(
+        limits.maxDuration
+      )
+      expect(chunk.cutInSilence).toBe(false)
+    }
+    expect(chunks[chunks.length - 1].end).toBe(3000)
+  })
+
+  it('limits chunk length by the upload size', () => {
+    const chunks = planChunkBoundaries(3000, [], {
+      ...limits,
+      maxBytes: 4 * 1024 * 1024, // about 8 minutes at 64 kbit/s
+    })
+
+    for (const chunk of chunks) {
+      expect(chunk.end - chunk.start).toBeLessThan(
+        (4 * 1024 * 1024 * 8) / 64000
+      )
+    }
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  combineScores,
+  scoreChapters,
+} from '../scripts/chapter-metrics'
+
+const reference = [
+  { title: 'Welcome to DejaVue', startTime: 0 },
+  { title: 'What is e18e?', startTime: 300 },
+  { title: 'Wrapping up', startTime: 1800 },
+]
+
+describe('scoreChapters', () => {
+  it('matches boundaries within the tolerance', () => {
+    const score = scoreChapters(
+      reference,
+      [
+        { title: 'Welcome to DejaVue', startTime: 0 },
+        { title: 'What is e18e', startTime: 320 },
+        { title: 'Performance', startTime: 900 },
+        { title: 'Outro', startTime: 1900 },
+      ],
+      30
+    )
+
+    expect(score.matches).toHaveLength(1)
+    expect(score.precision).toBeCloseTo(1 / 3)
+    expect(score.recall).toBe(0.5)
+    expect(score.f1).toBeCloseTo(0.4)
+    expect(score.meanAbsoluteError).toBe(20)
+    expect(score.meanTitleSimilarity).toBeGreaterThan(0.9)
+  })
+
+  it('pairs each reference with at most one prediction', () => {
+    const score = scoreChapters(
+      reference.slice(0, 2),
+      [
+        { title: 'Intro', startTime: 0 },
+        { title: 'e18e', startTime: 305 },
+        { title: 'What is e18e?', startTime: 302 },
+      ],
+      30
+    )
+
+    expect(score.matches).toHaveLength(1)
+    expect(score.matches[0].predicted.startTime).toBe(302)
+  })
+
+  it('leaves the opening chapters out of the score', () => {
+    const score = scoreChapters(
+      reference,
+      [{ title: 'Welcome to DejaVue', startTime: 0 }],
+      30
+    )
+
+    expect(score.referenceCount).toBe(2)
+    expect(score.predictedCount).toBe(0)
+    expect(score.matches).toHaveLength(0)
+    expect(score.recall).toBe(0)
+  })
+
+  it('has no error or similarity without matches', () => {
+    const score = scoreChapters(reference, [], 30)
+
+    expect(score.precision).toBe(0)
+    expect(score.meanAbsoluteError).toBeUndefined()
+  })
+})
+
+describe('combineScores', () => {
+  it('pools the boundaries of every episode', () => {
+    const combined = combineScores([
+      scoreChapters(reference, reference, 30),
+      scoreChapters(reference, [], 30),
+    ])
+
+    expect(combined.referenceCount).toBe(4)
+    expect(combined.predictedCount).toBe(2)
+    expect(combined.precision).toBe(1)
+    expect(combined.recall).toBe(0.5)
+  })
+})
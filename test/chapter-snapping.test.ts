@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildBoundaryCandidates,
+  formatSnapReport,
+  snapChapters,
+  snapChapterStart,
+} from '../scripts/chapter-snapping'
+
+const cues = [
+  { start: 0, end: 4, text: 'Welcome to DejaVue.' },
+  { start: 4, end: 9, text: 'Today we talk about' },
+  { start: 9, end: 14, text: 'signals, finally!' },
+  { start: 16, end: 20, text: 'So, where do we start?' },
+  { start: 20, end: 25, text: 'With the basics, I guess' },
+]
+
+describe('buildBoundaryCandidates', () => {
+  it('only takes cues that start a sentence', () => {
+    const candidates = buildBoundaryCandidates({ cues })
+
+    expect(
+      candidates.map((candidate) => candidate.timestamp)
+    ).toEqual([0, 4, 16, 20])
+  })
+
+  it('weighs silences by their length', () => {
+    const [short, long] = buildBoundaryCandidates({
+      silences: [
+        { start: 10, end: 10.5 },
+        { start: 30, end: 34 },
+      ],
+    })
+
+    expect(short).toMatchObject({
+      timestamp: 10.5,
+      kind: 'silence',
+      weight: 0.25,
+    })
+    expect(long.weight).toBe(1)
+  })
+})
+
+describe('snapChapterStart', () => {
+  it('prefers a speaker turn after a pause to a closer sentence start', () => {
+    const candidates = buildBoundaryCandidates({
+      cues,
+      silences: [{ start: 14, end: 16 }],
+      speakerChanges: [
+        { timestamp: 16, speaker: 'Michael' },
+      ],
+    })
+
+    const result = snapChapterStart(
+      'Signals',
+      19,
+      candidates,
+      { window: 10 }
+    )
+
+    expect(result.to).toBe(16)
+    expect(result.score).toBe(2.04)
+    expect(result.reasons).toEqual([
+      '2.0s silence',
+      'sentence start',
+      'Michael starts talking',
+      '3.0s from the proposed start',
+    ])
+  })
+
+  it('never snaps into the middle of a sentence', () => {
+    const candidates = buildBoundaryCandidates({
+      cues,
+      silences: [{ start: 8.5, end: 9 }],
+    })
+
+    expect(
+      snapChapterStart('Signals', 9, candidates).to
+    ).not.toBe(9)
+  })
+
+  it('keeps the start when nothing is close enough', () => {
+    expect(
+      snapChapterStart('Outro', 300, [], { window: 5 })
+    ).toEqual({
+      title: 'Outro',
+      from: 300,
+      to: 300,
+      score: 0,
+      reasons: ['no candidates within 5s'],
+    })
+  })
+})
+
+describe('snapChapters', () => {
+  it('keeps the first chapter and the order of the rest', () => {
+    const candidates = buildBoundaryCandidates({ cues })
+
+    const { chapters, results } = snapChapters(
+      [
+        { title: 'Intro', startTime: 1 },
+        { title: 'Signals', startTime: 5 },
+        { title: 'Basics', startTime: 6 },
+      ],
+      candidates,
+      { window: 3 }
+    )
+
+    expect(chapters.map((c) => c.startTime)).toEqual([
+      1, 4, 6,
+    ])
+    expect(formatSnapReport(results)).toBe(
+      [
+        '00:05 → 00:04  Signals (score 0.5: sentence start, 1.0s from the proposed start)',
+        '00:06 → 00:06  Basics (score 0: no candidates within 3s)',
+      ].join('\n')
+    )
+  })
+
+  it('never moves a chapter past the next proposed start', () => {
+    const { chapters } = snapChapters(
+      [
+        { title: 'Intro', startTime: 0 },
+        { title: 'e18e', startTime: 40 },
+        { title: 'Chokidar', startTime: 45 },
+      ],
+      buildBoundaryCandidates({
+        speakerChanges: [
+          { timestamp: 50, speaker: 'James' },
+        ],
+      })
+    )
+
+    expect(chapters.map((c) => c.startTime)).toEqual([
+      0, 40, 50,
+    ])
+  })
+})
@@ -0,0 +1,60 @@
+import { readFileSync } from 'fs'
+import { describe, expect, it } from 'vitest'
+import {
+  formatChaptersFile,
+  formatChapterTimestamp,
+  parseChaptersFile,
+} from '../scripts/chapters-file'
+
+const e55 = readFileSync(
+  'content/e55/chapters.txt',
+  'utf-8'
+)
+
+describe('parseChaptersFile', () => {
+  it('reads timestamp and title lines', () => {
+    const chapters = parseChaptersFile(e55)
+
+    expect(chapters.slice(0, 2)).toEqual([
+      { title: 'Welcome to DejaVue', startTime: 0 },
+      {
+        title: 'Which libraries do you maintain?',
+        startTime: 34,
+      },
+    ])
+    expect(chapters[chapters.length - 1]).toEqual({
+      title: 'Wrapping up',
+      startTime: 3741,
+    })
+  })
+
+  it('accepts the single-line layout', () => {
+    expect(
+      parseChaptersFile('00:00 Intro\n01:02:03 Outro\n')
+    ).toEqual([
+      { title: 'Intro', startTime: 0 },
+      { title: 'Outro', startTime: 3723 },
+    ])
+  })
+
+  it('rejects a timestamp without a title', () => {
+    expect(() =>
+      parseChaptersFile('00:00\nIntro\n04:12\n')
+    ).toThrow('Missing title after timestamp "04:12"')
+  })
+})
+
+describe('formatChaptersFile', () => {
+  it('round-trips a published chapters.txt', () => {
+    expect(formatChaptersFile(parseChaptersFile(e55))).toBe(
+      e55
+    )
+  })
+
+  it('switches to hours past the hour mark', () => {
+    expect(formatChapterTimestamp(59 * 60 + 59)).toBe(
+      '59:59'
+    )
+    expect(formatChapterTimestamp(3741)).toBe('01:02:21')
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clusterFeatures,
+  labelCues,
+  nameSpeakers,
+  parseRTTM,
+  turnsFromTrackLevels,
+} from '../scripts/diarization'
+
+describe('turnsFromTrackLevels', () => {
+  it('picks the track furthest above its own speech level', () => {
+    // Alex's microphone is much quieter and Michael's bleeds into it
+    const alex = [
+      -30, -30, -30, -30, -60, -45, -44, -44, -44, -44,
+    ]
+    const michael = [
+      -35, -35, -35, -35, -60, -12, -12, -12, -12, -12,
+    ]
+
+    expect(
+      turnsFromTrackLevels(
+        [alex, michael],
+        ['Alex', 'Michael'],
+        0.1
+      )
+    ).toEqual([
+      { start: 0, end: 0.4, speaker: 'Alex' },
+      { start: 0.5, end: 1, speaker: 'Michael' },
+    ])
+  })
+
+  it('bridges short pauses and drops short bursts', () => {
+    const alex = [
+      ...Array(10).fill(-20),
+      ...Array(3).fill(-80),
+      ...Array(10).fill(-20),
+    ]
+    const michael = [
+      ...Array(20).fill(-80),
+      -20,
+      ...Array(2).fill(-80),
+    ]
+
+    expect(
+      turnsFromTrackLevels(
+        [alex, michael],
+        ['Alex', 'Michael'],
+        0.1
+      )
+    ).toEqual([{ start: 0, end: 2.3, speaker: 'Alex' }])
+  })
+})
+
+describe('clusterFeatures', () => {
+  it('separates two groups of vectors', () => {
+    expect(
+      clusterFeatures(
+        [
+          [0, 0],
+          [0.1, 0.2],
+          [5, 5],
+          [-0.1, 0],
+          [5.2, 4.9],
+        ],
+        2
+      )
+    ).toEqual([0, 0, 1, 0, 1])
+  })
+})
+
+describe('speaker labels', () => {
+  const rttm = [
+    'SPEAKER e55 1 0.50 4.00 <NA> <NA> SPEAKER_01 <NA> <NA>',
+    'SPEAKER e55 1 4.80 2.20 <NA> <NA> SPEAKER_00 <NA> <NA>',
+    'SPEAKER e55 1 7.10 3.00 <NA> <NA> SPEAKER_01 <NA> <NA>',
+  ].join('\n')
+
+  it('names speakers in order of who talks first', () => {
+    expect(
+      nameSpeakers(parseRTTM(rttm), [
+        'Alexander Lichter',
+        'James Garbutt',
+      ])
+    ).toEqual([
+      {
+        start: 0.5,
+        end: 4.5,
+        speaker: 'Alexander Lichter',
+      },
+      { start: 4.8, end: 7, speaker: 'James Garbutt' },
+      {
+        start: 7.1,
+        end: 10.1,
+        speaker: 'Alexander Lichter',
+      },
+    ])
+  })
+
+  it('gives each cue the speaker it overlaps most', () => {
+    const cues = labelCues(
+      [
+        {
+          start: 0,
+          end: 4,
+          text: 'Welcome back to DejaVue.',
+        },
+        {
+          start: 4,
+          end: 7.5,
+          text: 'Thanks for having me.',
+        },
+        {
+          start: 12,
+          end: 13,
+          text: 'Bye!',
+          speaker: 'Michael',
+        },
+      ],
+      parseRTTM(rttm)
+    )
+
+    expect(cues.map((cue) => cue.speaker)).toEqual([
+      'SPEAKER_01',
+      'SPEAKER_00',
+      'Michael',
+    ])
+  })
+})
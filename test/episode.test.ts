@@ -0,0 +1,103 @@
+import * as path from 'path'
+import { describe, expect, it } from 'vitest'
+import {
+  getArtifactPath,
+  getEpisodeSpeakers,
+  listEpisodes,
+  loadEpisode,
+  normalizeEpisodeId,
+  withEpisodeNames,
+} from '../scripts/episode'
+
+const contentDir = path.join(__dirname, 'fixtures/content')
+
+describe('normalizeEpisodeId', () => {
+  it('accepts numbers with or without the prefix', () => {
+    expect(normalizeEpisodeId('e57')).toBe('e57')
+    expect(normalizeEpisodeId('E57')).toBe('e57')
+    expect(normalizeEpisodeId('057')).toBe('e57')
+    expect(() => normalizeEpisodeId('latest')).toThrow(
+      'Invalid episode ID'
+    )
+  })
+})
+
+describe('loadEpisode', () => {
+  it('uses default artifact paths without a manifest', async () => {
+    const episode = await loadEpisode('12', contentDir)
+
+    expect(episode.manifest).toEqual({
+      number: 12,
+      hosts: [],
+      guests: [],
+      artifacts: {},
+      tracks: {},
+    })
+    expect(getArtifactPath(episode, 'transcript')).toBe(
+      path.join(contentDir, 'e12', 'transcript.vtt')
+    )
+  })
+
+  it('resolves artifacts and tracks from the manifest', async () => {
+    const episode = await loadEpisode('e7', contentDir)
+
+    expect(getArtifactPath(episode, 'video')).toBe(
+      path.join(contentDir, 'e7', 'raw/recording.mov')
+    )
+    expect(getArtifactPath(episode, 'audio')).toBe(
+      path.join(contentDir, 'e7', 'audio.mp3')
+    )
+    expect(getEpisodeSpeakers(episode)).toEqual({
+      speakers: [
+        { name: 'Alex', track: undefined },
+        {
+          name: 'Sam',
+          track: path.join(
+            contentDir,
+            'e7',
+            'tracks/sam.wav'
+          ),
+        },
+      ],
+    })
+  })
+
+  it('rejects a manifest for another episode', async () => {
+    await expect(
+      loadEpisode('e8', contentDir)
+    ).rejects.toThrow('is for episode 9, not e8')
+  })
+})
+
+describe('listEpisodes', () => {
+  it('sorts episodes by number', async () => {
+    expect(await listEpisodes(contentDir)).toEqual([
+      'e7',
+      'e8',
+      'e12',
+    ])
+  })
+})
+
+describe('withEpisodeNames', () => {
+  it('adds hosts and guests that are not in the glossary', async () => {
+    const episode = await loadEpisode('e7', contentDir)
+    const glossary = withEpisodeNames(
+      {
+        entries: [
+          {
+            term: 'Alex',
+            misheard: ['Alix'],
+            kind: 'name',
+          },
+        ],
+      },
+      episode
+    )
+
+    expect(glossary.entries).toEqual([
+      { term: 'Alex', misheard: ['Alix'], kind: 'name' },
+      { term: 'Sam', misheard: [], kind: 'name' },
+    ])
+  })
+})
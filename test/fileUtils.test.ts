@@ -0,0 +1,481 @@
+import {
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile,
+  mkdir,
+} from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import {
+  findMatchingFiles,
+  formatPlan,
+  formatProcessReport,
+  isRetryableError,
+  naturalSort,
+  planFiles,
+  processFiles,
+  processFilesWithReport,
+  ContentProcessor,
+  ProcessProgress,
+} from '../scripts/fileUtils'
+import { CACHE_MANIFEST_FILE } from '../scripts/cache'
+
+const FIXTURES = join(__dirname, 'fixtures', 'fileUtils')
+const SEASON_1 = join(FIXTURES, 'season-1')
+const SEASON_2 = join(FIXTURES, 'season-2')
+const INTERVIEW = join(FIXTURES, 'bonus', 'interview.txt')
+
+// Upper-cases the file content and remembers what it was called with
+function createProcessor() {
+  const calls: string[] = []
+  const processor: ContentProcessor<string> = {
+    process: async (content, metadata) => {
+      calls.push(metadata.inputPath)
+      return content.toString().toUpperCase()
+    },
+  }
+  return { processor, calls }
+}
+
+describe('naturalSort', () => {
+  it('orders numbers by value, not lexically', () => {
+    expect(
+      ['e10.vtt', 'e2.vtt', 'e1.vtt'].sort(naturalSort)
+    ).toEqual(['e1.vtt', 'e2.vtt', 'e10.vtt'])
+  })
+
+  it('sorts by directory before file name', () => {
+    const files = [
+      join('season-10', 'e1.vtt'),
+      join('season-2', 'e10.vtt'),
+      join('season-2', 'e2.vtt'),
+    ]
+
+    expect(files.sort(naturalSort)).toEqual([
+      join('season-2', 'e2.vtt'),
+      join('season-2', 'e10.vtt'),
+      join('season-10', 'e1.vtt'),
+    ])
+  })
+
+  it('puts a shorter path first when the rest is equal', () => {
+    expect(
+      naturalSort(join('e1', 'a'), join('e1', 'a', 'b'))
+    ).toBeLessThan(0)
+  })
+})
+
+describe('findMatchingFiles', () => {
+  it('walks nested directories and filters by extension', async () => {
+    const files = await findMatchingFiles(SEASON_1, {
+      fileFilter: ['.txt'],
+      recursive: true,
+    })
+
+    expect(files).toEqual([
+      join(SEASON_1, 'nested', 'e3.txt'),
+      join(SEASON_1, 'e1.txt'),
+      join(SEASON_1, 'e2.txt'),
+      join(SEASON_1, 'e10.txt'),
+    ])
+  })
+
+  it('ignores directories unless recursive', async () => {
+    const files = await findMatchingFiles(
+      [SEASON_1, INTERVIEW],
+      { fileFilter: ['.txt'] }
+    )
+
+    expect(files).toEqual([INTERVIEW])
+  })
+
+  it('accepts a filter function', async () => {
+    const files = await findMatchingFiles(SEASON_1, {
+      fileFilter: (filename) => filename.endsWith('.md'),
+      recursive: true,
+    })
+
+    expect(files).toEqual([join(SEASON_1, 'notes.md')])
+  })
+})
+
+describe('processFiles', () => {
+  let outputDir: string
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'fileUtils-'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(outputDir, { recursive: true, force: true })
+  })
+
+  it('maps every input to paths inside the output directory', async () => {
+    const { processor } = createProcessor()
+
+    await processFiles([SEASON_1, SEASON_2, INTERVIEW], {
+      outputDir,
+      processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+    })
+
+    const read = (...segments: string[]) =>
+      readFile(join(outputDir, ...segments), 'utf-8')
+
+    expect(await read('e1.out')).toBe('EPISODE 1\n')
+    expect(await read('nested', 'e3.out')).toBe(
+      'EPISODE 3\n'
+    )
+    expect(await read('e20.out')).toBe('EPISODE 20\n')
+    expect(await read('interview.out')).toBe('INTERVIEW\n')
+  })
+
+  it('replaces the input extension with outputExtension', async () => {
+    const { processor } = createProcessor()
+    const written: string[] = []
+
+    await processFiles(SEASON_2, {
+      outputDir,
+      processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.json',
+      outputWriter: async (_result, outputPath) => {
+        written.push(outputPath)
+      },
+    })
+
+    expect(written).toEqual([join(outputDir, 'e20.json')])
+  })
+
+  it('writes to the outputPath of an input when one is given', async () => {
+    const { processor } = createProcessor()
+    const options = {
+      outputDir,
+      fileFilter: () => true,
+      outputPath: () => join(outputDir, 'transcript.vtt'),
+      cacheKey: () => ({ prompt: 'v1' }),
+    }
+
+    const plan = await planFiles(INTERVIEW, options)
+    expect(
+      plan.map((file) => [file.action, file.outputPath])
+    ).toEqual([
+      ['process', join(outputDir, 'transcript.vtt')],
+    ])
+
+    await processFiles(INTERVIEW, { ...options, processor })
+    expect(
+      await readFile(
+        join(outputDir, 'transcript.vtt'),
+        'utf-8'
+      )
+    ).toBe('INTERVIEW\n')
+
+    const [replanned] = await planFiles(INTERVIEW, options)
+    expect(replanned.action).toBe('skip')
+  })
+
+  it('skips files whose output exists unless processExisting is set', async () => {
+    await writeFile(join(outputDir, 'e1.out'), 'done')
+    await mkdir(join(outputDir, 'nested'))
+    await writeFile(
+      join(outputDir, 'nested', 'e3.out'),
+      'done'
+    )
+
+    const skipping = createProcessor()
+    const results = await processFiles(SEASON_1, {
+      outputDir,
+      processor: skipping.processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+    })
+
+    expect(skipping.calls).toEqual([
+      join(SEASON_1, 'e2.txt'),
+      join(SEASON_1, 'e10.txt'),
+    ])
+    expect(results).toEqual(['EPISODE 2\n', 'EPISODE 10\n'])
+    expect(
+      await readFile(join(outputDir, 'e1.out'), 'utf-8')
+    ).toBe('done')
+
+    const reprocessing = createProcessor()
+    await processFiles(SEASON_1, {
+      outputDir,
+      processor: reprocessing.processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+      processExisting: true,
+    })
+
+    expect(reprocessing.calls).toHaveLength(4)
+    expect(
+      await readFile(join(outputDir, 'e1.out'), 'utf-8')
+    ).toBe('EPISODE 1\n')
+  })
+
+  it('keeps going when one file fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const processor: ContentProcessor<string> = {
+      process: async (content, metadata) => {
+        if (metadata.filename === 'e2.txt') {
+          throw new Error('boom')
+        }
+        return content.toString()
+      },
+    }
+
+    const results = await processFiles(SEASON_1, {
+      outputDir,
+      processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+    })
+
+    expect(results).toHaveLength(3)
+    expect(console.error).toHaveBeenCalledTimes(1)
+  })
+  it('limits how many files are processed at once', async () => {
+    let running = 0
+    let maxRunning = 0
+    const processor: ContentProcessor<string> = {
+      process: async (content) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise((resolve) =>
+          setTimeout(resolve, 10)
+        )
+        running--
+        return content.toString()
+      },
+    }
+
+    const results = await processFiles(SEASON_1, {
+      outputDir,
+      processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+      concurrency: 2,
+    })
+
+    expect(maxRunning).toBe(2)
+    expect(results).toEqual([
+      'episode 3\n',
+      'episode 1\n',
+      'episode 2\n',
+      'episode 10\n',
+    ])
+  })
+
+  it('retries rate limits and server errors with backoff', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const attempts = new Map<string, number>()
+    const progress: ProcessProgress[] = []
+    const processor: ContentProcessor<string> = {
+      process: async (content, metadata) => {
+        const attempt =
+          (attempts.get(metadata.filename) ?? 0) + 1
+        attempts.set(metadata.filename, attempt)
+
+        if (metadata.filename === 'e1.txt' && attempt < 3) {
+          throw Object.assign(
+            new Error('Too Many Requests'),
+            {
+              status: 429,
+            }
+          )
+        }
+        if (metadata.filename === 'e2.txt') {
+          throw Object.assign(new Error('Bad Request'), {
+            status: 400,
+          })
+        }
+        if (metadata.filename === 'e10.txt') {
+          throw Object.assign(new Error('Bad Gateway'), {
+            statusCode: 502,
+          })
+        }
+        return content.toString()
+      },
+    }
+
+    const report = await processFilesWithReport(SEASON_1, {
+      outputDir,
+      processor,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+      retries: 2,
+      retryDelay: 0,
+      onProgress: (event) => progress.push(event),
+    })
+
+    expect(attempts.get('e1.txt')).toBe(3)
+    expect(attempts.get('e2.txt')).toBe(1)
+    expect(attempts.get('e10.txt')).toBe(3)
+
+    expect(
+      report.succeeded.map((entry) => [
+        entry.inputPath,
+        entry.attempts,
+      ])
+    ).toEqual([
+      [join(SEASON_1, 'nested', 'e3.txt'), 1],
+      [join(SEASON_1, 'e1.txt'), 3],
+    ])
+    expect(
+      report.failed.map((entry) => [
+        entry.inputPath,
+        entry.attempts,
+      ])
+    ).toEqual([
+      [join(SEASON_1, 'e2.txt'), 1],
+      [join(SEASON_1, 'e10.txt'), 3],
+    ])
+
+    expect(
+      progress.filter(
+        (event) => event.status === 'retrying'
+      )
+    ).toHaveLength(4)
+    expect(
+      progress
+        .filter((event) => event.status !== 'retrying')
+        .map((event) => event.completed)
+    ).toEqual([1, 2, 3, 4])
+  })
+
+  it('reports skipped files and summarizes failures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await writeFile(join(outputDir, 'e20.out'), 'done')
+
+    const report = await processFilesWithReport(
+      [SEASON_2, INTERVIEW],
+      {
+        outputDir,
+        processor: {
+          process: async () => {
+            throw new Error('model unavailable')
+          },
+        },
+        fileFilter: ['.txt'],
+        recursive: true,
+        outputExtension: '.out',
+      }
+    )
+
+    expect(report.skipped).toEqual([
+      {
+        inputPath: join(SEASON_2, 'e20.txt'),
+        outputPath: join(outputDir, 'e20.out'),
+      },
+    ])
+    expect(formatProcessReport(report)).toMatch(
+      /0 succeeded, 1 skipped, 1 failed\n  ✗ .*interview\.txt \(1 attempt\): model unavailable$/
+    )
+  })
+
+  it('reprocesses cached outputs only when the cache key changes', async () => {
+    // Predates the cache, so it is adopted rather than redone
+    await writeFile(join(outputDir, 'interview.out'), 'old')
+
+    const run = async (prompt: string) => {
+      const { processor, calls } = createProcessor()
+      await processFiles([SEASON_2, INTERVIEW], {
+        outputDir,
+        processor,
+        fileFilter: ['.txt'],
+        recursive: true,
+        outputExtension: '.out',
+        cacheKey: () => ({ prompt, model: 'whisper-1' }),
+      })
+      return calls
+    }
+
+    expect(await run('v1')).toEqual([
+      join(SEASON_2, 'e20.txt'),
+    ])
+    expect(await run('v1')).toEqual([])
+    expect(await run('v2')).toEqual([
+      INTERVIEW,
+      join(SEASON_2, 'e20.txt'),
+    ])
+
+    const manifest = JSON.parse(
+      await readFile(
+        join(outputDir, CACHE_MANIFEST_FILE),
+        'utf-8'
+      )
+    )
+    expect(Object.keys(manifest.entries).sort()).toEqual([
+      'e20.out',
+      'interview.out',
+    ])
+  })
+
+  it('plans without writing anything', async () => {
+    const planDir = join(outputDir, 'plan')
+
+    const plan = await planFiles([SEASON_2, INTERVIEW], {
+      outputDir: planDir,
+      fileFilter: ['.txt'],
+      recursive: true,
+      outputExtension: '.out',
+      cacheKey: () => ({ prompt: 'v1' }),
+      estimate: async () => ({ tokens: 100, usd: 0.5 }),
+    })
+
+    expect(
+      plan.map((file) => [file.action, file.outputPath])
+    ).toEqual([
+      ['process', join(planDir, 'interview.out')],
+      ['process', join(planDir, 'e20.out')],
+    ])
+    expect(plan[0].size).toBe(10)
+    expect(formatPlan(plan)).toMatch(
+      /2 to process, 0 to skip, estimated ~200 tokens, \$1\.00$/
+    )
+    await expect(
+      readFile(join(planDir, CACHE_MANIFEST_FILE))
+    ).rejects.toThrow()
+  })
+})
+
+describe('isRetryableError', () => {
+  it('accepts 429 and 5xx from ofetch, the AI SDK or a cause', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true)
+    expect(isRetryableError({ statusCode: 503 })).toBe(true)
+    expect(
+      isRetryableError({ lastError: { statusCode: 500 } })
+    ).toBe(true)
+    expect(
+      isRetryableError({ cause: { status: 429 } })
+    ).toBe(true)
+  })
+
+  it('rejects client errors and errors without a status', () => {
+    expect(isRetryableError({ status: 401 })).toBe(false)
+    expect(isRetryableError(new Error('boom'))).toBe(false)
+    expect(isRetryableError(undefined)).toBe(false)
+  })
+})
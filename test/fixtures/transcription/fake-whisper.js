@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+// Stands in for whisper-ctranslate2: writes <name>.json to --output_dir
+// with one word per second of a made-up 30 second recording. A number
+// at the end of the name, e.g. chunk-20.mp3, is the second of the
+// recording the input starts at, so chunks hear the words of their part.
+const { basename, extname, join } = require('path')
+const { writeFileSync } = require('fs')
+
+const args = process.argv.slice(2)
+const outputDir = args[args.indexOf('--output_dir') + 1]
+const input = args[0]
+const name = basename(input, extname(input))
+const offset = Number(name.match(/-(\d+)$/)?.[1] ?? 0)
+
+const segments = [0, 10, 20].map((start, id) => {
+  const words = Array.from({ length: 10 }, (_, i) => ({
+    start: start + i,
+    end: start + i + 0.8,
+    word: ` w${offset + start + i}`,
+    probability: 0.9,
+  }))
+  return {
+    id,
+    start,
+    end: start + 10,
+    text: words.map((word) => word.word).join(''),
+    words,
+  }
+})
+
+writeFileSync(
+  join(outputDir, `${name}.json`),
+  JSON.stringify({
+    text: segments.map((segment) => segment.text).join(''),
+    segments,
+    language: 'en',
+  })
+)
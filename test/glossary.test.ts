@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildGlossaryPrompt,
+  correctCues,
+  correctText,
+  correctTranscription,
+  Glossary,
+} from '../scripts/glossary'
+
+const glossary: Glossary = {
+  entries: [
+    { term: 'James Garbutt', misheard: [], kind: 'name' },
+    { term: 'Vue', misheard: [], kind: 'term' },
+    {
+      term: 'VueUse',
+      misheard: ['Vue use', 'View use'],
+      kind: 'term',
+    },
+    { term: 'Nuxt', misheard: ['Nux'], kind: 'term' },
+    { term: 'e18e', misheard: ['E18E'], kind: 'term' },
+  ],
+}
+
+describe('correctText', () => {
+  it('replaces whole misheard words regardless of case', () => {
+    expect(
+      correctText(
+        'NUX runs on Linux, and view  use is a Vue library.',
+        glossary
+      )
+    ).toEqual({
+      text: 'Nuxt runs on Linux, and VueUse is a Vue library.',
+      substitutions: [
+        { from: 'view  use', to: 'VueUse' },
+        { from: 'NUX', to: 'Nuxt' },
+      ],
+    })
+  })
+
+  it('does not report text that is already right', () => {
+    expect(
+      correctText('The e18e initiative', glossary)
+        .substitutions
+    ).toEqual([])
+  })
+})
+
+describe('correctCues', () => {
+  it('reports where each substitution was made', () => {
+    const { cues, substitutions } = correctCues(
+      [
+        {
+          start: 16.4,
+          end: 32,
+          text: 'a Vue use maintainer',
+        },
+        { start: 41, end: 44, text: 'lead of E18E' },
+      ],
+      glossary
+    )
+
+    expect(cues.map((cue) => cue.text)).toEqual([
+      'a VueUse maintainer',
+      'lead of e18e',
+    ])
+    expect(substitutions).toEqual([
+      { start: 16.4, from: 'Vue use', to: 'VueUse' },
+      { start: 41, from: 'E18E', to: 'e18e' },
+    ])
+  })
+})
+
+describe('correctTranscription', () => {
+  it('merges the words of a multi-word misheard form', () => {
+    const word = (word: string, start: number) => ({
+      word,
+      start,
+      end: start + 0.5,
+    })
+
+    const { transcription } = correctTranscription(
+      {
+        text: 'We use View use and E 18 E.',
+        words: [
+          word('We', 0),
+          word('use', 1),
+          word('View', 2),
+          word('use', 3),
+          word('and', 4),
+          word('E', 5),
+          word('18', 5.5),
+          word('E.', 6),
+        ],
+        segments: [
+          {
+            id: 0,
+            start: 0,
+            end: 7,
+            text: ' We use View use and E 18 E.',
+          },
+        ],
+      },
+      {
+        entries: [
+          ...glossary.entries,
+          {
+            term: 'e18e',
+            misheard: ['E 18 E'],
+            kind: 'term',
+          },
+        ],
+      }
+    )
+
+    expect(transcription.text).toBe(
+      'We use VueUse and e18e.'
+    )
+    expect(transcription.words).toEqual([
+      word('We', 0),
+      word('use', 1),
+      { word: 'VueUse', start: 2, end: 3.5 },
+      word('and', 4),
+      { word: 'e18e.', start: 5, end: 6.5 },
+    ])
+  })
+})
+
+describe('buildGlossaryPrompt', () => {
+  it('lists names first, then misheard terms', () => {
+    expect(
+      buildGlossaryPrompt('A Vue podcast.', glossary)
+    ).toBe(
+      'A Vue podcast. Names and terms: James Garbutt, VueUse, Nuxt, e18e, Vue.'
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { interleaveTrackCues } from '../scripts/multitrack'
+
+describe('interleaveTrackCues', () => {
+  const tracks = [
+    {
+      speaker: 'Alexander Lichter',
+      cues: [
+        {
+          start: 0,
+          end: 5,
+          text: 'Welcome back to DejaVue.',
+        },
+        { start: 9, end: 10, text: 'Yeah.' }, // bleed from James
+        { start: 12, end: 15, text: 'So what is e18e?' },
+      ],
+    },
+    {
+      speaker: 'James Garbutt',
+      cues: [
+        {
+          start: 5.5,
+          end: 11,
+          text: 'Thanks for having me.',
+        },
+        { start: 20, end: 22, text: 'Thank you.' }, // over silence
+      ],
+    },
+  ]
+
+  it('orders the cues of all tracks by time', () => {
+    expect(
+      interleaveTrackCues(tracks).map(
+        (cue) => `${cue.speaker}: ${cue.text}`
+      )
+    ).toEqual([
+      'Alexander Lichter: Welcome back to DejaVue.',
+      'James Garbutt: Thanks for having me.',
+      'Alexander Lichter: Yeah.',
+      'Alexander Lichter: So what is e18e?',
+      'James Garbutt: Thank you.',
+    ])
+  })
+
+  it('drops cues where the track speaker is not talking', () => {
+    const cues = interleaveTrackCues(tracks, [
+      { start: 0, end: 5.2, speaker: 'Alexander Lichter' },
+      { start: 5.4, end: 11.2, speaker: 'James Garbutt' },
+      {
+        start: 11.8,
+        end: 15,
+        speaker: 'Alexander Lichter',
+      },
+    ])
+
+    expect(cues.map((cue) => cue.text)).toEqual([
+      'Welcome back to DejaVue.',
+      'Thanks for having me.',
+      'So what is e18e?',
+    ])
+  })
+})
@@ -0,0 +1,145 @@
+import { readFileSync } from 'fs'
+import { describe, expect, it } from 'vitest'
+import { extractRelevantLinks } from '../scripts/linkExtractor'
+import {
+  createModel,
+  fixtureModels,
+  parseModelSpec,
+  withModels,
+} from '../scripts/models'
+import {
+  editResponse,
+  processTranscript,
+} from '../scripts/process-transcripts'
+import {
+  processTranscriptChapters,
+  splitTranscriptIntoChapters,
+} from '../scripts/transcript-chapters'
+
+// Hand-written responses for a short transcript, in the format that
+// LLM_FIXTURES=record saves. Run with LLM_FIXTURES=record and an API key
+// to replace them with real ones after changing a prompt.
+const FIXTURES_DIR = 'test/fixtures/llm'
+// Fixtures are keyed by model, so a local models.config.json or MODEL_*
+// variable must not change which one the tests ask for
+const FIXTURE_MODEL = parseModelSpec('openai:gpt-4.1')
+const TRANSCRIPT_PATH = `${FIXTURES_DIR}/transcript.vtt`
+const transcript = readFileSync(TRANSCRIPT_PATH, 'utf-8')
+
+const models = fixtureModels(
+  process.env.LLM_FIXTURES === 'record'
+    ? 'record'
+    : 'replay',
+  FIXTURES_DIR,
+  () => createModel(FIXTURE_MODEL)
+)
+
+describe('chapter pipeline', () => {
+  it('splits the transcript into chapters', async () => {
+    const chapters = await withModels(models, () =>
+      splitTranscriptIntoChapters(transcript, 3)
+    )
+
+    expect(
+      chapters.map((chapter) => chapter.title)
+    ).toEqual([
+      'Welcome to DejaVue',
+      'Libraries nobody knows they use',
+    ])
+  })
+
+  it('finds a start time for every chapter', async () => {
+    const chapters = await withModels(models, () =>
+      processTranscriptChapters(transcript, {
+        transcriptPath: TRANSCRIPT_PATH,
+        maxChapters: 3,
+      })
+    )
+
+    expect(
+      chapters.map(({ title, startTime }) => ({
+        title,
+        startTime,
+      }))
+    ).toEqual([
+      { title: 'Welcome to DejaVue', startTime: 0 },
+      {
+        title: 'Libraries nobody knows they use',
+        startTime: 65,
+      },
+    ])
+  })
+
+  it('snaps the chapter starts when asked to', async () => {
+    const steps: string[] = []
+    const chapters = await withModels(models, () =>
+      processTranscriptChapters(transcript, {
+        transcriptPath: TRANSCRIPT_PATH,
+        maxChapters: 3,
+        snap: {},
+        onProgress: (progress) => steps.push(progress.step),
+      })
+    )
+
+    expect(chapters[0].startTime).toBe(0)
+    expect(chapters[1].startTime).toBeCloseTo(65.985)
+    expect(steps).toContain('snapped')
+    expect(steps).not.toContain('silences')
+  })
+})
+
+describe('extractRelevantLinks', () => {
+  it('ranks the sources of every search', async () => {
+    const links = await withModels(models, () =>
+      extractRelevantLinks(transcript, {
+        numQueries: 2,
+        numLinks: 3,
+      })
+    )
+
+    expect(links).toEqual([
+      { description: 'e18e', url: 'https://e18e.dev/' },
+      {
+        description: 'James Garbutt on GitHub',
+        url: 'https://github.com/43081j',
+      },
+      {
+        description: 'Chokidar',
+        url: 'https://github.com/paulmillr/chokidar',
+      },
+    ])
+  })
+})
+
+describe('processTranscript', () => {
+  it('writes and edits the episode metadata', async () => {
+    const edited = await withModels(models, async () =>
+      editResponse({
+        ...(await processTranscript(
+          {
+            filename: 'transcript.vtt',
+            content: transcript,
+          },
+          `${FIXTURES_DIR}/lesson-meta.md`
+        )),
+        duration: 0,
+      })
+    )
+
+    expect(edited.title).toBe(
+      'James Garbutt on the libraries everyone uses'
+    )
+    expect(edited.description).not.toMatch(/essential/)
+  })
+})
+
+describe('fixture replay', () => {
+  it('fails on a prompt without a recording', async () => {
+    await expect(
+      withModels(
+        fixtureModels('replay', FIXTURES_DIR),
+        () => splitTranscriptIntoChapters('WEBVTT\n', 3)
+      )
+    ).rejects.toThrow('No recorded response')
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildMetadataFile,
+  chapterStartsFromSilenceEnds,
+  titleChapters,
+} from '../scripts/silence-chapters'
+
+describe('chapterStartsFromSilenceEnds', () => {
+  it('skips starts too close to the previous one or the end', () => {
+    expect(
+      chapterStartsFromSilenceEnds(
+        [95, 40, 310, 320, 590],
+        600,
+        30
+      )
+    ).toEqual([0, 40, 95, 310])
+  })
+})
+
+describe('titleChapters', () => {
+  it('uses the first words spoken in each chapter', () => {
+    expect(
+      titleChapters(
+        [0, 60, 120],
+        [
+          { start: 2, end: 5, text: 'Welcome to DejaVue!' },
+          {
+            start: 61,
+            end: 70,
+            text: 'So let us talk about the  new reactivity system in Vue',
+          },
+        ]
+      )
+    ).toEqual([
+      { title: 'Welcome to DejaVue!', startTime: 0 },
+      {
+        title: 'So let us talk about the new reactivity…',
+        startTime: 60,
+      },
+      { title: 'Chapter 3', startTime: 120 },
+    ])
+  })
+})
+
+describe('buildMetadataFile', () => {
+  it('writes millisecond chapters with escaped titles', () => {
+    expect(
+      buildMetadataFile(
+        [
+          { title: 'Intro', startTime: 0 },
+          { title: 'Q&A; part #2', startTime: 61.5 },
+        ],
+        120.25
+      )
+    ).toBe(
+      [
+        ';FFMETADATA1',
+        '',
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        'START=0',
+        'END=61500',
+        'title=Intro',
+        '',
+        '[CHAPTER]',
+        'TIMEBASE=1/1000',
+        'START=61500',
+        'END=120250',
+        'title=Q&A\\; part \\#2',
+        '',
+      ].join('\n')
+    )
+  })
+})
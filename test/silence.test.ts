@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import {
+  parseSilenceDetectOutput,
+  parseThreshold,
+} from '../scripts/silence'
+
+const OUTPUT = `
+Input #0, mp3, from 'episode.mp3':
+[silencedetect @ 0x5581] silence_start: -0.0123
+[silencedetect @ 0x5581] silence_end: 1.52 | silence_duration: 1.53
+size=N/A time=00:00:10.00 bitrate=N/A speed= 412x
+[silencedetect @ 0x5581] silence_start: 4.25
+[silencedetect @ 0x5581] silence_end: 5.1 | silence_duration: 0.85
+[silencedetect @ 0x5581] silence_start: 9.4
+`
+
+describe('parseSilenceDetectOutput', () => {
+  it('pairs starts and ends and clamps the first start', () => {
+    expect(parseSilenceDetectOutput(OUTPUT)).toEqual([
+      { start: 0, end: 1.52 },
+      { start: 4.25, end: 5.1 },
+    ])
+  })
+
+  it('closes a trailing silence at the duration', () => {
+    expect(
+      parseSilenceDetectOutput(OUTPUT, 10)
+    ).toContainEqual({ start: 9.4, end: 10 })
+  })
+})
+
+describe('parseThreshold', () => {
+  it('reads the magnitude and the signed value the same', () => {
+    expect(parseThreshold('-35')).toBe(-35)
+    expect(parseThreshold('35')).toBe(-35)
+    expect(parseThreshold('loud')).toBeNaN()
+  })
+})
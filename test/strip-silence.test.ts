@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildStripSilenceFilter,
+  getEditDecisionListPath,
+  getKeptSegments,
+  planRemovedRanges,
+} from '../scripts/strip-silence'
+
+describe('planRemovedRanges', () => {
+  it('keeps padding around speech and drops short silences', () => {
+    expect(
+      planRemovedRanges(
+        [
+          { start: 30, end: 32 },
+          { start: 0, end: 1.5 },
+          { start: 10, end: 10.3 },
+          { start: 58, end: 60 },
+        ],
+        60,
+        0.2
+      )
+    ).toEqual([
+      { start: 0.2, end: 1.3 },
+      { start: 30.2, end: 31.8 },
+      { start: 58.2, end: 59.8 },
+    ])
+  })
+})
+
+describe('getKeptSegments', () => {
+  it('returns what is left between the removed ranges', () => {
+    expect(
+      getKeptSegments(
+        [
+          { start: 0, end: 1.3 },
+          { start: 30.2, end: 31.8 },
+        ],
+        60
+      )
+    ).toEqual([
+      { start: 1.3, end: 30.2 },
+      { start: 31.8, end: 60 },
+    ])
+  })
+})
+
+describe('buildStripSilenceFilter', () => {
+  const segments = [
+    { start: 0, end: 5.2 },
+    { start: 6.8, end: 12 },
+  ]
+
+  it('only touches audio for audio files', () => {
+    expect(
+      buildStripSilenceFilter(segments, 12, false)
+    ).toEqual({
+      filter: [
+        '[0:a]atrim=start=0:end=5.2,asetpts=PTS-STARTPTS[a0]',
+        '[0:a]atrim=start=6.8,asetpts=PTS-STARTPTS[a1]',
+        '[a0][a1]concat=n=2:v=0:a=1[outa]',
+      ].join(';'),
+      outputs: ['outa'],
+    })
+  })
+
+  it('trims video alongside the audio', () => {
+    const { filter, outputs } = buildStripSilenceFilter(
+      segments,
+      12,
+      true
+    )
+
+    expect(filter).toContain(
+      '[0:v]trim=start=0:end=5.2,setpts=PTS-STARTPTS[v0]'
+    )
+    expect(filter).toContain(
+      '[v0][a0][v1][a1]concat=n=2:v=1:a=1[outv][outa]'
+    )
+    expect(outputs).toEqual(['outv', 'outa'])
+  })
+
+  it('cuts a silence at the very end', () => {
+    const { filter } = buildStripSilenceFilter(
+      segments,
+      20,
+      false
+    )
+
+    expect(filter).toContain(
+      '[0:a]atrim=start=6.8:end=12,asetpts=PTS-STARTPTS[a1]'
+    )
+  })
+})
+
+describe('getEditDecisionListPath', () => {
+  it('replaces the extension', () => {
+    expect(
+      getEditDecisionListPath('videos/e57_no_silence.mp4')
+    ).toBe('videos/e57_no_silence.edl.json')
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clampTime,
+  editsFromEditDecisionList,
+  mapTime,
+  parseEditDecisionList,
+  parseTimelineEdit,
+  remapChapters,
+  remapCues,
+  remapTranscription,
+  TimelineEdit,
+} from '../scripts/timeline'
+
+const edits: TimelineEdit[] = [
+  { type: 'remove', start: 10, end: 15 },
+  { type: 'remove', start: 30, end: 32 },
+  { type: 'insert', at: 0, duration: 8 },
+]
+
+describe('mapTime', () => {
+  it('shifts by everything removed or inserted before', () => {
+    expect(mapTime(5, edits)).toBe(13)
+    expect(mapTime(20, edits)).toBe(23)
+    expect(mapTime(40, edits)).toBe(41)
+  })
+
+  it('has no place for moments that were cut', () => {
+    expect(mapTime(12, edits)).toBeUndefined()
+    expect(clampTime(12, edits)).toBe(18)
+  })
+
+  it('does not take out overlapping ranges twice', () => {
+    expect(
+      mapTime(40, [
+        { type: 'remove', start: 10, end: 20 },
+        { type: 'remove', start: 15, end: 25 },
+      ])
+    ).toBe(25)
+  })
+})
+
+describe('remapCues', () => {
+  it('clips partly cut cues and drops cut ones', () => {
+    expect(
+      remapCues(
+        [
+          { start: 8, end: 12, text: 'clipped' },
+          { start: 11, end: 14, text: 'cut' },
+          { start: 29, end: 33, text: 'spans a cut' },
+        ],
+        edits
+      )
+    ).toEqual([
+      { start: 16, end: 18, text: 'clipped' },
+      { start: 32, end: 34, text: 'spans a cut' },
+    ])
+  })
+
+  it('keeps zero-length words outside the cuts', () => {
+    expect(
+      remapCues(
+        [
+          { start: 5, end: 5, word: 'kept' },
+          { start: 12, end: 12, word: 'cut' },
+        ],
+        edits
+      )
+    ).toEqual([{ start: 13, end: 13, word: 'kept' }])
+  })
+})
+
+describe('remapTranscription', () => {
+  it('moves words and segments and rebuilds the text', () => {
+    expect(
+      remapTranscription(
+        {
+          text: 'Hello there. Gone.',
+          words: [
+            { word: 'Hello', start: 1, end: 1.5 },
+            { word: 'there', start: 1.6, end: 2 },
+            { word: 'Gone', start: 11, end: 12 },
+          ],
+          segments: [
+            {
+              id: 0,
+              start: 1,
+              end: 2,
+              text: ' Hello there.',
+            },
+            { id: 1, start: 11, end: 12, text: ' Gone.' },
+          ],
+        },
+        [{ type: 'remove', start: 10, end: 15 }]
+      )
+    ).toEqual({
+      text: 'Hello there.',
+      words: [
+        { word: 'Hello', start: 1, end: 1.5 },
+        { word: 'there', start: 1.6, end: 2 },
+      ],
+      segments: [
+        { id: 0, start: 1, end: 2, text: ' Hello there.' },
+      ],
+    })
+  })
+})
+
+describe('remapChapters', () => {
+  it('moves chapters that start in a cut to the cut', () => {
+    expect(
+      remapChapters(
+        [
+          { title: 'Intro', startTime: 0 },
+          { title: 'Topic', startTime: 14 },
+          { title: 'Untimed' },
+        ],
+        edits
+      )
+    ).toEqual([
+      { title: 'Intro', startTime: 8 },
+      { title: 'Topic', startTime: 18 },
+      { title: 'Untimed' },
+    ])
+  })
+})
+
+describe('parseTimelineEdit', () => {
+  it('parses removals and insertions', () => {
+    expect(parseTimelineEdit('01:02-01:30')).toEqual({
+      type: 'remove',
+      start: 62,
+      end: 90,
+    })
+    expect(parseTimelineEdit('62-90.5')).toEqual({
+      type: 'remove',
+      start: 62,
+      end: 90.5,
+    })
+    expect(parseTimelineEdit('0+8')).toEqual({
+      type: 'insert',
+      at: 0,
+      duration: 8,
+    })
+    expect(() => parseTimelineEdit('30-10')).toThrow(
+      'Invalid edit'
+    )
+  })
+})
+
+describe('editsFromEditDecisionList', () => {
+  it('turns removed ranges into edits', () => {
+    expect(
+      editsFromEditDecisionList({
+        source: 'e57.mp4',
+        duration: 60,
+        padding: 0.2,
+        removed: [{ start: 5.2, end: 6.8 }],
+      })
+    ).toEqual([{ type: 'remove', start: 5.2, end: 6.8 }])
+  })
+})
+
+describe('parseEditDecisionList', () => {
+  it('reads a strip-silence edit decision list', () => {
+    const edl = {
+      source: 'e57.mp4',
+      duration: 60,
+      padding: 0.2,
+      removed: [{ start: 5.2, end: 6.8 }],
+    }
+
+    expect(
+      parseEditDecisionList(JSON.stringify(edl))
+    ).toEqual(edl)
+  })
+
+  it('rejects other JSON', () => {
+    expect(() =>
+      parseEditDecisionList(
+        JSON.stringify({ removed: [{ start: 'a' }] }),
+        'e57.edl.json'
+      )
+    ).toThrow('Invalid e57.edl.json')
+  })
+})
@@ -0,0 +1,217 @@
+import type { LanguageModelV1 } from 'ai'
+import { describe, expect, it, vi } from 'vitest'
+import { withModels } from '../scripts/models'
+import {
+  buildBreakpoints,
+  findChapterTimestamps,
+  processTranscriptChapters,
+  validateStructuredChapters,
+} from '../scripts/transcript-chapters'
+
+const cues = [
+  { start: 0, end: 10, text: 'Welcome to DejaVue.' },
+  { start: 10, end: 20, speaker: 'James', text: 'Hi!' },
+  { start: 20, end: 30, text: 'So, e18e.' },
+  { start: 252, end: 260, text: 'Now to Chokidar.' },
+]
+
+describe('buildBreakpoints', () => {
+  it('numbers cue starts and speaker changes in order', () => {
+    expect(
+      buildBreakpoints(cues, [
+        { timestamp: 10, speaker: 'James' },
+        { timestamp: 25, speaker: 'Alex' },
+      ])
+    ).toEqual([
+      { id: 0, timestamp: 0, kind: 'cue' },
+      {
+        id: 1,
+        timestamp: 10,
+        kind: 'speaker',
+        speaker: 'James',
+      },
+      { id: 2, timestamp: 20, kind: 'cue' },
+      {
+        id: 3,
+        timestamp: 25,
+        kind: 'speaker',
+        speaker: 'Alex',
+      },
+      { id: 4, timestamp: 252, kind: 'cue' },
+    ])
+  })
+})
+
+describe('validateStructuredChapters', () => {
+  const breakpoints = buildBreakpoints(cues)
+
+  it('resolves breakpoint IDs to start times', () => {
+    expect(
+      validateStructuredChapters(
+        [
+          { title: 'Welcome', breakpointId: 0 },
+          { title: 'Chokidar', breakpointId: 3 },
+        ],
+        breakpoints,
+        260,
+        5
+      )
+    ).toEqual([
+      {
+        title: 'Welcome',
+        content: '',
+        number: 1,
+        startTime: 0,
+      },
+      {
+        title: 'Chokidar',
+        content: '',
+        number: 2,
+        startTime: 252,
+      },
+    ])
+  })
+
+  it('starts the first chapter at 00:00', () => {
+    const [first, second] = validateStructuredChapters(
+      [
+        { title: 'e18e', breakpointId: 2 },
+        { title: 'Chokidar', breakpointId: 3 },
+      ],
+      breakpoints,
+      260,
+      5
+    )
+
+    expect(first.startTime).toBe(0)
+    expect(second.startTime).toBe(252)
+  })
+
+  it('rejects unknown, out of order and late breakpoints', () => {
+    expect(() =>
+      validateStructuredChapters(
+        [{ title: 'Intro', breakpointId: 9 }],
+        breakpoints,
+        260,
+        5
+      )
+    ).toThrow('unknown breakpoint 9')
+    expect(() =>
+      validateStructuredChapters(
+        [
+          { title: 'Intro', breakpointId: 0 },
+          { title: 'Chokidar', breakpointId: 3 },
+          { title: 'e18e', breakpointId: 2 },
+        ],
+        breakpoints,
+        260,
+        5
+      )
+    ).toThrow('"e18e" starts before')
+    expect(() =>
+      validateStructuredChapters(
+        [
+          { title: 'Intro', breakpointId: 0 },
+          { title: 'Chokidar', breakpointId: 3 },
+        ],
+        breakpoints,
+        200,
+        5
+      )
+    ).toThrow('after the end of the episode')
+  })
+
+  it('rejects empty and too long results', () => {
+    expect(() =>
+      validateStructuredChapters([], breakpoints, 260, 5)
+    ).toThrow('No chapters')
+    expect(() =>
+      validateStructuredChapters(
+        [
+          { title: 'Intro', breakpointId: 0 },
+          { title: 'Chokidar', breakpointId: 3 },
+        ],
+        breakpoints,
+        260,
+        1
+      )
+    ).toThrow('at most 1 chapters, got 2')
+  })
+})
+
+describe('findChapterTimestamps', () => {
+  // A model that always gives `startTime` as its answer
+  const answering =
+    (startTime: string) => (): LanguageModelV1 => ({
+      specificationVersion: 'v1',
+      provider: 'test',
+      modelId: 'test',
+      defaultObjectGenerationMode: 'json',
+      doGenerate: async () => ({
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 0 },
+        text: JSON.stringify({ reasoning: '', startTime }),
+      }),
+      doStream: () => {
+        throw new Error('Not supported')
+      },
+    })
+  const previousChapter = {
+    title: 'Welcome',
+    content: '',
+    number: 1,
+    startTime: 0,
+  }
+  const chapter = {
+    title: 'Chokidar',
+    content: '',
+    number: 2,
+  }
+  const speakerChanges = [
+    { timestamp: 10, speaker: 'James' },
+    { timestamp: 95, speaker: 'Alex' },
+    { timestamp: 252, speaker: 'James' },
+  ]
+
+  it('uses the breakpoint the model picks', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const result = await withModels(
+      answering('00:04:12'),
+      () =>
+        findChapterTimestamps(
+          chapter,
+          'WEBVTT\n',
+          previousChapter,
+          speakerChanges
+        )
+    )
+
+    expect(result.startTime).toBe(252)
+  })
+
+  it('falls back to the first eligible breakpoint', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const result = await withModels(answering('soon'), () =>
+      findChapterTimestamps(
+        chapter,
+        'WEBVTT\n',
+        previousChapter,
+        speakerChanges
+      )
+    )
+
+    expect(result.startTime).toBe(95)
+  })
+})
+
+describe('processTranscriptChapters', () => {
+  it('fails when the transcript file can not be read', async () => {
+    await expect(
+      processTranscriptChapters('WEBVTT\n', {
+        transcriptPath: 'test/fixtures/missing.vtt',
+      })
+    ).rejects.toThrow('ENOENT')
+  })
+})
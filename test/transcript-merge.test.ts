@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest'
+import {
+  mergeWordTranscriptions,
+  TranscriptionResponse,
+} from '../scripts/transcript-merge'
+
+// Segments are this many words long, so the segments of overlapping
+// chunks start at different times and one straddles every split
+const SEGMENT_WORDS = 7
+
+// One word per second, "w<n>" where n is the absolute second, as a
+// chunk starting at `offset` would transcribe it (times relative to
+// the chunk), optionally placed `drift` seconds off
+function transcribeChunk(
+  offset: number,
+  from: number,
+  to: number,
+  drift = 0
+): TranscriptionResponse {
+  const words = []
+  for (let second = from; second < to; second++) {
+    words.push({
+      word: `w${second}`,
+      start: second - offset + drift,
+      end: second - offset + drift + 0.8,
+    })
+  }
+
+  const segments = []
+  for (
+    let start = from;
+    start < to;
+    start += SEGMENT_WORDS
+  ) {
+    segments.push({
+      id: segments.length,
+      start: start - offset + drift,
+      end:
+        Math.min(start + SEGMENT_WORDS, to) -
+        offset +
+        drift,
+      text: ` ${words
+        .slice(start - from, start - from + SEGMENT_WORDS)
+        .map((word) => word.word)
+        .join(' ')}.`,
+    })
+  }
+
+  return {
+    text: segments.map((segment) => segment.text).join(''),
+    words,
+    segments,
+  }
+}
+
+// Words of the text without punctuation, in order
+function textWords(text: string) {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.replace('.', ''))
+}
+
+const wordsUntil = (count: number) =>
+  Array.from({ length: count }, (_, i) => `w${i}`)
+
+function isMonotonic(
+  items: { start: number; end: number }[]
+) {
+  return items.every(
+    (item, i) =>
+      item.end >= item.start &&
+      (i === 0 || item.start >= items[i - 1].end)
+  )
+}
+
+describe('mergeWordTranscriptions', () => {
+  it('keeps the words of the overlap once', () => {
+    const merged = mergeWordTranscriptions([
+      {
+        offset: 0,
+        transcription: transcribeChunk(0, 0, 30),
+      },
+      {
+        offset: 20,
+        transcription: transcribeChunk(20, 20, 50, 0.3),
+      },
+    ])
+
+    expect(merged.words.map((word) => word.word)).toEqual(
+      Array.from({ length: 50 }, (_, i) => `w${i}`)
+    )
+    expect(isMonotonic(merged.words)).toBe(true)
+    expect(merged.words[49].start).toBeCloseTo(49.3)
+  })
+
+  it('renumbers segments and builds the text from them without repeats', () => {
+    const merged = mergeWordTranscriptions([
+      {
+        offset: 0,
+        transcription: transcribeChunk(0, 0, 30),
+      },
+      {
+        offset: 20,
+        transcription: transcribeChunk(20, 20, 50, 0.3),
+      },
+      {
+        offset: 40,
+        transcription: transcribeChunk(40, 40, 60, -0.2),
+      },
+    ])
+
+    expect(
+      merged.segments.map((segment) => segment.id)
+    ).toEqual(merged.segments.map((_, i) => i))
+    expect(isMonotonic(merged.segments)).toBe(true)
+    expect(textWords(merged.text)).toEqual(wordsUntil(60))
+    expect(
+      merged.segments.flatMap((segment) =>
+        textWords(segment.text)
+      )
+    ).toEqual(wordsUntil(60))
+  })
+
+  it('trims the segments straddling the split to the words kept', () => {
+    const merged = mergeWordTranscriptions([
+      {
+        offset: 0,
+        transcription: transcribeChunk(0, 0, 30),
+      },
+      {
+        offset: 20,
+        transcription: transcribeChunk(20, 20, 50),
+      },
+    ])
+
+    // The chunks agree on w20-w29 and split at w25, inside the segments
+    // w21-w27 of the first chunk and w20-w26 of the second
+    expect(
+      merged.segments
+        .slice(3, 5)
+        .map(({ start, end, text }) => ({
+          start,
+          end,
+          text,
+        }))
+    ).toEqual([
+      { start: 21, end: 24.8, text: ' w21 w22 w23 w24' },
+      { start: 25, end: 26.8, text: ' w25 w26' },
+    ])
+  })
+
+  it('rebuilds the text of a cut segment from its words', () => {
+    const first = transcribeChunk(0, 0, 30)
+    // A dash has no timed word of its own
+    first.segments[3].text =
+      ' w21 w22 - w23 w24 w25 w26 w27.'
+
+    const merged = mergeWordTranscriptions([
+      { offset: 0, transcription: first },
+      {
+        offset: 20,
+        transcription: transcribeChunk(20, 20, 50),
+      },
+    ])
+
+    expect(merged.segments[3].text).toBe(' w21 w22 w23 w24')
+  })
+
+  it('splits in the middle of the overlap when the words differ', () => {
+    const first = transcribeChunk(0, 0, 30)
+    const second = transcribeChunk(20, 20, 50)
+    second.words.forEach((word) => {
+      word.word = word.word.replace('w', 'x')
+    })
+
+    const merged = mergeWordTranscriptions([
+      { offset: 0, transcription: first },
+      { offset: 20, transcription: second },
+    ])
+
+    expect(merged.words.map((word) => word.word)).toEqual([
+      ...Array.from({ length: 25 }, (_, i) => `w${i}`),
+      ...Array.from({ length: 25 }, (_, i) => `x${i + 25}`),
+    ])
+  })
+})
@@ -0,0 +1,258 @@
+import { readFileSync } from 'fs'
+import { describe, expect, it } from 'vitest'
+import {
+  parseSRT,
+  parseTimestampedText,
+  parseVTT,
+  serializeTimestampedText,
+  serializeVTT,
+} from '../scripts/transcript'
+
+const e55 = readFileSync(
+  'content/e55/transcript.vtt',
+  'utf-8'
+)
+
+describe('parseVTT', () => {
+  it('reads cues with their speakers', () => {
+    const cues = parseVTT(e55)
+
+    expect(cues[0]).toMatchObject({
+      start: 0,
+      end: 16.155,
+      speaker: 'Alexander Lichter',
+    })
+    expect(cues[1].speaker).toBeUndefined()
+    expect(cues[3]).toMatchObject({
+      start: 34.56,
+      end: 40.72,
+      speaker: 'James Garbutt',
+    })
+  })
+
+  it('skips NOTE blocks and keeps cue identifiers and settings', () => {
+    const cues = parseVTT(
+      [
+        'WEBVTT',
+        'NOTE recorded remotely',
+        'intro\n00:01.000 --> 00:02.500 align:start\nHello',
+      ].join('\n\n')
+    )
+
+    expect(cues).toEqual([
+      {
+        id: 'intro',
+        start: 1,
+        end: 2.5,
+        settings: 'align:start',
+        text: 'Hello',
+      },
+    ])
+  })
+
+  it('rejects files without a WEBVTT header', () => {
+    expect(() =>
+      parseVTT('00:01.000 --> 00:02.000\nHello')
+    ).toThrow('missing WEBVTT header')
+  })
+})
+
+describe('serializeVTT', () => {
+  it('round-trips a published transcript', () => {
+    expect(serializeVTT(parseVTT(e55))).toBe(e55)
+  })
+
+  it('collapses blank lines in cue text', () => {
+    const vtt = serializeVTT([
+      {
+        start: 0,
+        end: 2,
+        speaker: 'Michael Thiessen',
+        text: 'First paragraph.\n\n\nSecond paragraph.',
+      },
+      { start: 2, end: 3, text: 'Next cue' },
+    ])
+
+    expect(parseVTT(vtt)).toEqual([
+      {
+        start: 0,
+        end: 2,
+        speaker: 'Michael Thiessen',
+        text: 'First paragraph.\nSecond paragraph.',
+      },
+      { start: 2, end: 3, text: 'Next cue' },
+    ])
+  })
+})
+
+describe('parseSRT', () => {
+  const srt = [
+    '1\n00:00:01,000 --> 00:00:04,500\n>> Michael Thiessen: Welcome to DejaVue!',
+    '2\n00:00:04,500 --> 00:00:06,000\nNote: this is a thing',
+    '3\n00:00:06,000 --> 00:00:08,250\nALEXANDER LICHTER: Hi there\nand hello',
+  ].join('\n\n')
+
+  it('reads marked and all-caps speakers', () => {
+    expect(parseSRT(srt)).toEqual([
+      {
+        id: '1',
+        start: 1,
+        end: 4.5,
+        speaker: 'Michael Thiessen',
+        text: 'Welcome to DejaVue!',
+      },
+      {
+        id: '2',
+        start: 4.5,
+        end: 6,
+        text: 'Note: this is a thing',
+      },
+      {
+        id: '3',
+        start: 6,
+        end: 8.25,
+        speaker: 'ALEXANDER LICHTER',
+        text: 'Hi there\nand hello',
+      },
+    ])
+  })
+
+  it('reads known speakers and spells them as given', () => {
+    const cues = parseSRT(
+      '1\n00:00:01,000 --> 00:00:02,000\nAlexander Lichter: Hey\n\n' +
+        '2\n00:00:02,000 --> 00:00:03,000\nMICHAEL THIESSEN: Hi',
+      {
+        speakers: ['Alexander Lichter', 'Michael Thiessen'],
+      }
+    )
+
+    expect(cues.map((cue) => cue.speaker)).toEqual([
+      'Alexander Lichter',
+      'Michael Thiessen',
+    ])
+  })
+
+  it('reads known speakers with lowercase words', () => {
+    const [cue] = parseSRT(
+      '1\n00:00:01,000 --> 00:00:02,000\nRijk van Zanten: Hey',
+      { speakers: ['Rijk', 'Rijk van Zanten'] }
+    )
+
+    expect(cue).toMatchObject({
+      speaker: 'Rijk van Zanten',
+      text: 'Hey',
+    })
+  })
+})
+
+describe('parseTimestampedText', () => {
+  it('reads bracketed and leading timestamps', () => {
+    const cues = parseTimestampedText(
+      [
+        '[00:00:05] >> Alexander Lichter: Welcome back.',
+        'Today we talk about signals.',
+        '(01:10) Michael Thiessen: Finally!',
+        '02:30 - And one more thing',
+        '1:02:03',
+        'Wrapping up',
+      ].join('\n'),
+      { speakers: ['Michael Thiessen'] }
+    )
+
+    expect(cues).toEqual([
+      {
+        start: 5,
+        end: 70,
+        speaker: 'Alexander Lichter',
+        text: 'Welcome back.\nToday we talk about signals.',
+      },
+      {
+        start: 70,
+        end: 150,
+        speaker: 'Michael Thiessen',
+        text: 'Finally!',
+      },
+      { start: 150, end: 3723, text: 'And one more thing' },
+      { start: 3723, end: 3723, text: 'Wrapping up' },
+    ])
+  })
+
+  it('reads headers of known speakers with lowercase words', () => {
+    const cues = parseTimestampedText(
+      'Rijk van Zanten 01:23\nDirectus is a headless CMS.',
+      { speakers: ['Rijk van Zanten'] }
+    )
+
+    expect(cues).toEqual([
+      {
+        start: 83,
+        end: 83,
+        speaker: 'Rijk van Zanten',
+        text: 'Directus is a headless CMS.',
+      },
+    ])
+  })
+
+  it('reads speaker headers followed by paragraphs', () => {
+    const cues = parseTimestampedText(
+      'Alexander Lichter (00:00)\nHey everybody.\n\nJAMES GARBUTT 00:34\nThanks for having me.'
+    )
+
+    expect(cues).toEqual([
+      {
+        start: 0,
+        end: 34,
+        speaker: 'Alexander Lichter',
+        text: 'Hey everybody.',
+      },
+      {
+        start: 34,
+        end: 34,
+        speaker: 'JAMES GARBUTT',
+        text: 'Thanks for having me.',
+      },
+    ])
+  })
+
+  it('leaves times and colons in prose alone', () => {
+    const cues = parseTimestampedText(
+      [
+        '[00:01] Note: this is a thing',
+        '10:30 is when we met',
+        'Meeting 10:30',
+      ].join('\n')
+    )
+
+    expect(cues).toEqual([
+      {
+        start: 1,
+        end: 1,
+        text: 'Note: this is a thing\n10:30 is when we met\nMeeting 10:30',
+      },
+    ])
+  })
+
+  it('yields no cues for untimed text', () => {
+    expect(
+      parseTimestampedText('Just some notes.\nNo times.')
+    ).toEqual([])
+  })
+})
+
+describe('serializeTimestampedText', () => {
+  it('writes lines that parse back to the same cues', () => {
+    const cues = [
+      {
+        start: 5,
+        end: 70,
+        speaker: 'Alexander Lichter',
+        text: 'Welcome back.\nToday we talk about signals.',
+      },
+      { start: 70, end: 70, text: 'Finally!' },
+    ]
+
+    expect(
+      parseTimestampedText(serializeTimestampedText(cues))
+    ).toEqual(cues)
+  })
+})
@@ -0,0 +1,186 @@
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import {
+  createTranscriptionBackend,
+  normalizeResponse,
+  parseWhisperCppOutput,
+} from '../scripts/transcription-backends'
+import { transcribeChunks } from '../scripts/transcribeAudio'
+import { DEFAULT_CHUNK_LIMITS } from '../scripts/audio-chunks'
+
+const FIXTURES = join(
+  __dirname,
+  'fixtures',
+  'transcription'
+)
+
+describe('parseWhisperCppOutput', () => {
+  it('joins sub-word tokens and skips special tokens', () => {
+    const response = parseWhisperCppOutput({
+      transcription: [
+        {
+          offsets: { from: 0, to: 2000 },
+          text: ' Hello Nuxters.',
+          tokens: [
+            {
+              text: '[_BEG_]',
+              offsets: { from: 0, to: 0 },
+            },
+            {
+              text: ' Hello',
+              offsets: { from: 0, to: 600 },
+            },
+            {
+              text: ' Nu',
+              offsets: { from: 700, to: 1000 },
+            },
+            {
+              text: 'xters',
+              offsets: { from: 1000, to: 1500 },
+            },
+            {
+              text: '.',
+              offsets: { from: 1500, to: 1600 },
+            },
+            {
+              text: '[_TT_100]',
+              offsets: { from: 2000, to: 2000 },
+            },
+          ],
+        },
+      ],
+    })
+
+    expect(response).toEqual({
+      text: 'Hello Nuxters.',
+      words: [
+        { word: 'Hello', start: 0, end: 0.6 },
+        { word: 'Nuxters.', start: 0.7, end: 1.6 },
+      ],
+      segments: [
+        {
+          id: 0,
+          start: 0,
+          end: 2,
+          text: ' Hello Nuxters.',
+        },
+      ],
+    })
+  })
+})
+
+describe('normalizeResponse', () => {
+  it('rejects a response whose words have no timings', () => {
+    expect(() =>
+      normalizeResponse({
+        text: 'Hello',
+        words: [{ word: 'Hello' }],
+      })
+    ).toThrow('Unexpected transcription response')
+  })
+})
+
+describe('faster-whisper backend', () => {
+  it('reads the words nested in the CLI output segments', async () => {
+    const backend = createTranscriptionBackend(
+      'faster-whisper',
+      {
+        command: join(FIXTURES, 'fake-whisper.js'),
+      }
+    )
+
+    const response = await backend.transcribe(
+      'episode.mp3',
+      {
+        model: 'small',
+        language: 'en',
+      }
+    )
+
+    expect(response.words).toHaveLength(30)
+    expect(response.words[12]).toEqual({
+      word: 'w12',
+      start: 12,
+      end: 12.8,
+    })
+    expect(response.segments.map((s) => s.start)).toEqual([
+      0, 10, 20,
+    ])
+    expect(response.text.startsWith('w0 w1')).toBe(true)
+  })
+
+  it('reports a missing command', async () => {
+    const backend = createTranscriptionBackend(
+      'faster-whisper',
+      {
+        command: join(FIXTURES, 'does-not-exist'),
+      }
+    )
+
+    await expect(
+      backend.transcribe('episode.mp3', {
+        model: 'small',
+        language: 'en',
+      })
+    ).rejects.toThrow('not found')
+  })
+})
+
+describe('transcribeChunks', () => {
+  it('merges the chunks of a long recording into one transcription', async () => {
+    const backend = createTranscriptionBackend(
+      'faster-whisper',
+      {
+        command: join(FIXTURES, 'fake-whisper.js'),
+      }
+    )
+
+    // The second chunk starts 5 seconds before the first one ends
+    const response = await transcribeChunks(
+      {
+        source: 'episode.mp3',
+        duration: 55,
+        limits: DEFAULT_CHUNK_LIMITS,
+        chunks: [
+          {
+            index: 0,
+            path: 'chunk-0.mp3',
+            start: 0,
+            end: 30,
+            overlapBefore: 0,
+            overlapAfter: 5,
+            cutInSilence: true,
+          },
+          {
+            index: 1,
+            path: 'chunk-25.mp3',
+            start: 25,
+            end: 55,
+            overlapBefore: 5,
+            overlapAfter: 0,
+            cutInSilence: false,
+          },
+        ],
+      },
+      backend,
+      { model: 'small', language: 'en' }
+    )
+
+    const words = Array.from(
+      { length: 55 },
+      (_, i) => `w${i}`
+    )
+    expect(response.words.map((word) => word.word)).toEqual(
+      words
+    )
+    expect(response.words[54]).toEqual({
+      word: 'w54',
+      start: 54,
+      end: 54.8,
+    })
+    expect(response.text.split(' ')).toEqual(words)
+    expect(
+      response.segments.map((segment) => segment.id)
+    ).toEqual(response.segments.map((_, i) => i))
+  })
+})
@@ -0,0 +1,186 @@
+import { inflateSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import {
+  buildTimelineShapes,
+  renderTimelinePNG,
+  renderTimelineSVG,
+  WaveformPeaks,
+} from '../scripts/waveform'
+
+const waveform: WaveformPeaks = {
+  duration: 10,
+  peaks: [0.5, 1, 0.25, 0, 0, 0.5, 0.5, 1, 0.5, 0.25],
+}
+const size = { width: 100, height: 80 }
+
+describe('buildTimelineShapes', () => {
+  it('places every layer on the time axis', () => {
+    const shapes = buildTimelineShapes(
+      waveform,
+      {
+        silences: [{ start: 3, end: 5 }],
+        speakerChanges: [
+          { timestamp: 0, speaker: 'Alex' },
+          { timestamp: 5, speaker: 'Sam' },
+        ],
+        proposedChapters: [
+          { title: 'Topic', startTime: 5 },
+        ],
+        publishedChapters: [
+          { title: 'Topic & more', startTime: 4 },
+        ],
+      },
+      size
+    )
+    const labelled = shapes.filter((shape) => shape.label)
+
+    expect(
+      labelled.map(({ x, width, label }) => ({
+        x,
+        width,
+        label,
+      }))
+    ).toEqual([
+      { x: 30, width: 20, label: 'Silence 00:03–00:05' },
+      { x: 0, width: 50, label: 'Alex 00:00' },
+      { x: 50, width: 50, label: 'Sam 00:05' },
+      {
+        x: 40,
+        width: 2,
+        label: 'Published: 00:04 Topic & more',
+      },
+      {
+        x: 40,
+        width: 2,
+        label: 'Published: 00:04 Topic & more',
+      },
+      { x: 50, width: 2, label: 'Proposed: 00:05 Topic' },
+      { x: 50, width: 2, label: 'Proposed: 00:05 Topic' },
+    ])
+  })
+
+  it('captions chapter ticks up to the next one', () => {
+    const captions = buildTimelineShapes(
+      waveform,
+      {
+        publishedChapters: [
+          { title: 'Welcome', startTime: 0 },
+          { title: 'Signals', startTime: 5 },
+        ],
+      },
+      size
+    ).flatMap((shape) =>
+      shape.caption ? [shape.caption] : []
+    )
+
+    // 42 pixels of room after each tick, at 6 a character
+    expect(captions).toEqual(['00:00 W', '00:05 S'])
+  })
+
+  it('scales the waveform to its loudest column', () => {
+    const bars = buildTimelineShapes(
+      waveform,
+      {},
+      size
+    ).filter((shape) => shape.width === 1)
+
+    expect(bars).toHaveLength(size.width)
+    expect(Math.max(...bars.map((bar) => bar.height))).toBe(
+      80 - 16 - 4 - 36
+    )
+  })
+})
+
+describe('renderTimelineSVG', () => {
+  it('escapes labels in tooltips', () => {
+    expect(
+      renderTimelineSVG(
+        [
+          {
+            x: 1,
+            y: 2,
+            width: 3,
+            height: 4,
+            color: '#ffffff',
+            opacity: 0.5,
+            label: 'Q&A <live>',
+          },
+        ],
+        size
+      )
+    ).toContain(
+      '<rect x="1" y="2" width="3" height="4" fill="#ffffff" fill-opacity="0.5"><title>Q&amp;A &lt;live&gt;</title></rect>'
+    )
+  })
+})
+
+describe('renderTimelinePNG', () => {
+  it('writes an RGB PNG of the requested size', () => {
+    const png = renderTimelinePNG(
+      [
+        {
+          x: 0,
+          y: 0,
+          width: 2,
+          height: 1,
+          color: '#ff8000',
+          opacity: 1,
+        },
+      ],
+      { width: 2, height: 2 }
+    )
+
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG')
+    expect(png.readUInt32BE(16)).toBe(2) // width
+    expect(png.readUInt32BE(20)).toBe(2) // height
+
+    const idatLength = png.readUInt32BE(33)
+    const rows = inflateSync(
+      png.subarray(41, 41 + idatLength)
+    )
+    expect([...rows]).toEqual([
+      0, 255, 128, 0, 255, 128, 0, 0, 0, 0, 0, 0, 0, 0,
+    ])
+  })
+  it('draws captions in the pixel font', () => {
+    const png = renderTimelinePNG(
+      [
+        {
+          x: 0,
+          y: 0,
+          width: 1,
+          height: 7,
+          color: '#000000',
+          opacity: 1,
+          caption: '-',
+        },
+      ],
+      { width: 12, height: 7 }
+    )
+
+    const idatLength = png.readUInt32BE(33)
+    const rows = inflateSync(
+      png.subarray(41, 41 + idatLength)
+    )
+    // The dash is the middle row of the glyph, right of the gap
+    const rowStart = 3 * (12 * 3 + 1) + 1
+    const lit = Array.from(
+      { length: 12 },
+      (_, x) => rows[rowStart + x * 3] > 0
+    )
+    expect(lit).toEqual([
+      false,
+      false,
+      false,
+      false,
+      true,
+      true,
+      true,
+      true,
+      true,
+      false,
+      false,
+      false,
+    ])
+  })
+})